@@ -0,0 +1,122 @@
+import { BigNumberish, utils, Wallet } from "ethers"
+import { isPublicKey, normalizePublicKey, parseWeight } from "./crypto-utils"
+import { ProcessCensusOrigin } from "./index"
+
+/**
+ * Authorization issued by the Certification Authority of an `OFF_CHAIN_CA` process, allowing a voter to take part in it.
+ * The signature covers `keccak256(abi.encode(bytes32 processId, address voter, uint256 weight))`.
+ */
+export type ICensusCABundle = {
+    processId: string,
+    /** Address of the voter */
+    voter: string,
+    /** Decimal string. 1 unless the CA issues weighted votes. */
+    weight: string,
+    signature: string
+}
+
+/**
+ * Certification Authority of an `OFF_CHAIN_CA` census. Instead of publishing a Merkle tree,
+ * the CA signs an authorization bundle for each voter and the compressed public key of the CA becomes the `censusRoot` of the process.
+ */
+export class CensusCA {
+    private _signingKey: utils.SigningKey
+
+    /** Wraps the given private key */
+    constructor(privateKey: string) {
+        try {
+            this._signingKey = new utils.SigningKey(privateKey)
+        }
+        catch (err) {
+            throw new Error("Invalid private key")
+        }
+    }
+
+    /** Creates a CA with a new random key pair */
+    static random(): CensusCA {
+        return new CensusCA(Wallet.createRandom().privateKey)
+    }
+
+    get privateKey(): string { return this._signingKey.privateKey }
+    /** The compressed public key of the CA */
+    get publicKey(): string { return this._signingKey.compressedPublicKey }
+    /** The value to use as `censusRoot` when creating the process */
+    get censusRoot(): string { return this._signingKey.compressedPublicKey }
+    /** The census origin to use when creating the process */
+    get censusOrigin(): ProcessCensusOrigin { return new ProcessCensusOrigin(ProcessCensusOrigin.OFF_CHAIN_CA) }
+
+    /**
+     * Signs the authorization of the given voter on the given process
+     * @param processId The ID of the process
+     * @param voter The address or the public key of the voter
+     * @param weight (optional) The voting weight of the voter (1 by default)
+     */
+    issue(processId: string, voter: string, weight: BigNumberish = 1): ICensusCABundle {
+        if (!utils.isHexString(processId, 32)) throw new Error("Invalid processId")
+
+        const voterAddress = parseVoter(voter)
+        const parsedWeight = parseWeight(weight)
+        const digest = computeCensusCADigest(processId, voterAddress, parsedWeight)
+
+        return {
+            processId: processId.toLowerCase(),
+            voter: voterAddress,
+            weight: parsedWeight.toString(),
+            signature: utils.joinSignature(this._signingKey.signDigest(digest))
+        }
+    }
+
+    /** Issues the bundles of many voters at once, in the same order */
+    issueAll(processId: string, voters: (string | { voter: string, weight?: BigNumberish })[]): ICensusCABundle[] {
+        if (!Array.isArray(voters)) throw new Error("Invalid voters")
+
+        return voters.map(item => typeof item == "string" ?
+            this.issue(processId, item) :
+            this.issue(processId, item && item.voter, item && item.weight)
+        )
+    }
+
+    /**
+     * Returns true if the bundle has been signed by the CA whose public key is `censusRoot`.
+     * When `processId` is given, the bundle also needs to target it.
+     */
+    static verify(censusRoot: string, bundle: ICensusCABundle, processId?: string): boolean {
+        if (!CensusCA.isValidCensusRoot(censusRoot)) throw new Error("Invalid censusRoot")
+        else if (!bundle || typeof bundle != "object") return false
+        else if (processId !== undefined && (typeof bundle.processId != "string" || bundle.processId.toLowerCase() != processId.toLowerCase())) return false
+
+        try {
+            if (!utils.isHexString(bundle.processId, 32)) return false
+            const digest = computeCensusCADigest(bundle.processId, parseVoter(bundle.voter), parseWeight(bundle.weight))
+            const signer = utils.computePublicKey(utils.recoverPublicKey(digest, bundle.signature), true)
+            return signer == normalizePublicKey(censusRoot)
+        }
+        catch (err) {
+            return false
+        }
+    }
+
+    /** Returns true if the given value is a secp256k1 public key, that can be used as the `censusRoot` of an `OFF_CHAIN_CA` process */
+    static isValidCensusRoot(censusRoot: string): boolean {
+        return isPublicKey(censusRoot)
+    }
+}
+
+/** Computes the digest signed by the CA for the given voter */
+export function computeCensusCADigest(processId: string, voter: string, weight: BigNumberish): string {
+    return utils.keccak256(utils.defaultAbiCoder.encode(["bytes32", "address", "uint256"], [processId, voter, weight]))
+}
+
+// HELPERS
+
+function parseVoter(voter: string): string {
+    if (typeof voter != "string") throw new Error("Invalid voter")
+    else if (utils.isAddress(voter)) return utils.getAddress(voter)
+
+    try {
+        return utils.computeAddress(normalizePublicKey(voter))
+    }
+    catch (err) {
+        throw new Error("Invalid voter")
+    }
+}
@@ -0,0 +1,204 @@
+import { BigNumber, BigNumberish, utils } from "ethers"
+import { normalizePublicKey, parseWeight } from "./crypto-utils"
+import { ProcessCensusOrigin } from "./index"
+
+/** Identifies the files produced by `CensusTree.export()` */
+export const CENSUS_TREE_FORMAT = "keccak256-merkle-tree"
+/** Version of the format produced by `CensusTree.export()` */
+export const CENSUS_TREE_FORMAT_VERSION = 1
+
+/** A voter of the census. On non-weighted trees, the weight is always 1. */
+export type ICensusEntry = {
+    /** Secp256k1 public key, compressed or not */
+    publicKey: string,
+    weight?: BigNumberish
+}
+
+/**
+ * Inclusion proof of a voter, verifiable offline with `CensusTree.verifyProof()`.
+ * Pairs of nodes are sorted before hashing, so the siblings alone are enough to rebuild the root.
+ */
+export type ICensusProof = {
+    /** Compressed public key of the voter */
+    publicKey: string,
+    /** Decimal string */
+    weight: string,
+    siblings: string[]
+}
+
+/**
+ * File format of an exported census, as published on `censusUri`:
+ *
+ * ```json
+ * {
+ *   "format": "keccak256-merkle-tree",
+ *   "version": 1,
+ *   "weighted": true,
+ *   "root": "0x...",
+ *   "entries": [{ "publicKey": "0x02...", "weight": "10" }, ...]
+ * }
+ * ```
+ *
+ * Entries are sorted by leaf hash and public keys are compressed.
+ * Each leaf is `keccak256(abi.encode(bytes publicKey, uint256 weight))` and each node hashes the sorted pair of its children.
+ * When a level has an odd amount of nodes, the last one is moved up as it is.
+ */
+export type ICensusTreeExport = {
+    format: string,
+    version: number,
+    weighted: boolean,
+    root: string,
+    entries: { publicKey: string, weight: string }[]
+}
+
+/** Merkle tree holding the public keys (and weights) of the voters of an `OFF_CHAIN_TREE` or `OFF_CHAIN_TREE_WEIGHTED` census */
+export class CensusTree {
+    private _weighted: boolean
+    private _entries: { publicKey: string, weight: BigNumber, leaf: string }[]
+    /** `_levels[0]` holds the leaves and the last level holds the root */
+    private _levels: string[][]
+
+    private constructor(weighted: boolean, entries: { publicKey: string, weight: BigNumber }[]) {
+        if (!entries.length) throw new Error("Empty census")
+        else if (new Set(entries.map(entry => entry.publicKey)).size != entries.length) throw new Error("Duplicate public key")
+
+        this._weighted = weighted
+        this._entries = entries.map(entry => ({ ...entry, leaf: hashCensusLeaf(entry.publicKey, entry.weight) }))
+            .sort((a, b) => a.leaf < b.leaf ? -1 : 1)
+
+        this._levels = [this._entries.map(entry => entry.leaf)]
+        while (this._levels[this._levels.length - 1].length > 1) {
+            const level = this._levels[this._levels.length - 1]
+            const nextLevel: string[] = []
+            for (let i = 0; i < level.length; i += 2) {
+                if (i + 1 < level.length) nextLevel.push(hashCensusNodes(level[i], level[i + 1]))
+                else nextLevel.push(level[i])
+            }
+            this._levels.push(nextLevel)
+        }
+    }
+
+    /**
+     * Builds the tree of the given voters.
+     * Plain public keys produce a non-weighted census. Entries with a `weight` produce a weighted census.
+     */
+    static build(voters: (string | ICensusEntry)[], options: { weighted?: boolean } = {}): CensusTree {
+        if (!Array.isArray(voters)) throw new Error("Invalid voters")
+
+        const weighted = typeof options.weighted == "boolean" ? options.weighted :
+            voters.some(voter => typeof voter == "object" && voter && voter.weight !== undefined)
+
+        const entries = voters.map(voter => {
+            const entry: ICensusEntry = typeof voter == "string" ? { publicKey: voter } : voter
+            if (!entry || typeof entry.publicKey != "string") throw new Error("Invalid public key")
+
+            return {
+                publicKey: normalizePublicKey(entry.publicKey),
+                weight: weighted ? parseWeight(entry.weight) : BigNumber.from(1)
+            }
+        })
+        return new CensusTree(weighted, entries)
+    }
+
+    /** The value to use as `censusRoot` when creating the process */
+    get root(): string { return this._levels[this._levels.length - 1][0] }
+    get weighted(): boolean { return this._weighted }
+    /** The census origin to use when creating the process */
+    get censusOrigin(): ProcessCensusOrigin {
+        return new ProcessCensusOrigin(this._weighted ? ProcessCensusOrigin.OFF_CHAIN_TREE_WEIGHTED : ProcessCensusOrigin.OFF_CHAIN_TREE)
+    }
+    get size(): number { return this._entries.length }
+
+    /** Returns the voters of the census, with their compressed public key and their weight as a decimal string */
+    get entries(): { publicKey: string, weight: string }[] {
+        return this._entries.map(({ publicKey, weight }) => ({ publicKey, weight: weight.toString() }))
+    }
+
+    hasVoter(publicKey: string): boolean {
+        return this.findIndex(publicKey) >= 0
+    }
+
+    /** Returns the inclusion proof of the given voter. Fails if the voter is not in the census. */
+    getProof(publicKey: string): ICensusProof {
+        let idx = this.findIndex(publicKey)
+        if (idx < 0) throw new Error("Not in the census")
+
+        const { weight } = this._entries[idx]
+        const siblings: string[] = []
+        for (let level of this._levels.slice(0, -1)) {
+            const sibling = idx % 2 == 0 ? idx + 1 : idx - 1
+            if (sibling < level.length) siblings.push(level[sibling])
+            idx = Math.floor(idx / 2)
+        }
+
+        return { publicKey: normalizePublicKey(publicKey), weight: weight.toString(), siblings }
+    }
+
+    /** Returns true if the given proof leads to the given census root */
+    static verifyProof(root: string, proof: ICensusProof): boolean {
+        if (!utils.isHexString(root, 32)) throw new Error("Invalid root")
+        else if (!proof || !Array.isArray(proof.siblings)) return false
+
+        try {
+            let node = hashCensusLeaf(normalizePublicKey(proof.publicKey), parseWeight(proof.weight))
+            for (let sibling of proof.siblings) {
+                if (!utils.isHexString(sibling, 32)) return false
+                node = hashCensusNodes(node, sibling)
+            }
+            return node == root.toLowerCase()
+        }
+        catch (err) {
+            return false
+        }
+    }
+
+    /** Returns the census in the `ICensusTreeExport` format, ready to be published */
+    export(): ICensusTreeExport {
+        return {
+            format: CENSUS_TREE_FORMAT,
+            version: CENSUS_TREE_FORMAT_VERSION,
+            weighted: this._weighted,
+            root: this.root,
+            entries: this.entries
+        }
+    }
+
+    /** Rebuilds an exported census, either as an object or as a JSON string. Fails if the resulting root does not match the exported one. */
+    static import(data: ICensusTreeExport | string): CensusTree {
+        if (typeof data == "string") {
+            try {
+                data = JSON.parse(data) as ICensusTreeExport
+            }
+            catch (err) {
+                throw new Error("Invalid census data")
+            }
+        }
+        if (!data || data.format !== CENSUS_TREE_FORMAT || !Array.isArray(data.entries)) throw new Error("Invalid census data")
+        else if (data.version !== CENSUS_TREE_FORMAT_VERSION) throw new Error("Unsupported version")
+
+        const result = CensusTree.build(data.entries, { weighted: !!data.weighted })
+        if (result.root != data.root) throw new Error("The census root does not match")
+        return result
+    }
+
+    private findIndex(publicKey: string): number {
+        let key: string
+        try {
+            key = normalizePublicKey(publicKey)
+        }
+        catch (err) {
+            return -1
+        }
+        return this._entries.findIndex(entry => entry.publicKey == key)
+    }
+}
+
+// HELPERS
+
+function hashCensusLeaf(publicKey: string, weight: BigNumber): string {
+    return utils.keccak256(utils.defaultAbiCoder.encode(["bytes", "uint256"], [publicKey, weight]))
+}
+
+function hashCensusNodes(a: string, b: string): string {
+    return a < b ? utils.keccak256(utils.concat([a, b])) : utils.keccak256(utils.concat([b, a]))
+}
@@ -0,0 +1,173 @@
+import { utils } from "ethers"
+import { IMethodOverrides, ProcessContractParameters } from "./index"
+import { ProcessClient } from "./process-client"
+import { IProcessEvent } from "./process-events"
+import { scanProcessEvents } from "./process-indexer"
+import { CensusTree, ICensusEntry } from "./census-tree"
+
+/** Where the exported census trees are published. Implement it to use IPFS, a web server or any other medium. */
+export interface IContentStorage {
+    /** Stores the given content and resolves with the URI to use as `censusUri` */
+    publish(content: string): Promise<string>
+    /** Resolves with the content published on the given URI */
+    fetch(uri: string): Promise<string>
+}
+
+/** Keeps the published contents in memory, on `memory://<keccak256 of the content>` URIs */
+export class MemoryContentStorage implements IContentStorage {
+    private contents: { [uri: string]: string } = {}
+
+    publish(content: string): Promise<string> {
+        const uri = "memory://" + utils.keccak256(utils.toUtf8Bytes(content)).substr(2)
+        this.contents[uri] = content
+        return Promise.resolve(uri)
+    }
+    fetch(uri: string): Promise<string> {
+        if (!(uri in this.contents)) return Promise.reject(new Error("Not found"))
+        return Promise.resolve(this.contents[uri])
+    }
+}
+
+/** Voters to add and to remove from a census. Removals are applied first, so that a voter can be re-added with a new weight. */
+export type ICensusChanges = {
+    add?: (string | ICensusEntry)[],
+    /** Public keys of the voters to remove */
+    remove?: string[]
+}
+
+/** Compressed public keys of the voters that differ between two censuses */
+export type ICensusDiff = {
+    added: string[],
+    removed: string[],
+    /** Voters present on both censuses with a different weight */
+    reweighted: string[]
+}
+
+/** A census of a process, as it was set on creation or by `setCensus()` */
+export type ICensusHistoryEntry = {
+    /** The event that set the census */
+    event: "NewProcess" | "CensusUpdated",
+    blockNumber: number,
+    transactionHash: string,
+    censusRoot: string,
+    censusUri: string
+}
+
+/** Returns the voters added, removed and reweighted from `before` to `after` */
+export function diffCensus(before: CensusTree, after: CensusTree): ICensusDiff {
+    if (!before || !after) throw new Error("Invalid census")
+
+    const beforeWeights: { [publicKey: string]: string } = {}
+    before.entries.forEach(entry => beforeWeights[entry.publicKey] = entry.weight)
+    const afterWeights: { [publicKey: string]: string } = {}
+    after.entries.forEach(entry => afterWeights[entry.publicKey] = entry.weight)
+
+    return {
+        added: Object.keys(afterWeights).filter(publicKey => !(publicKey in beforeWeights)).sort(),
+        removed: Object.keys(beforeWeights).filter(publicKey => !(publicKey in afterWeights)).sort(),
+        reweighted: Object.keys(afterWeights).filter(publicKey => publicKey in beforeWeights && beforeWeights[publicKey] != afterWeights[publicKey]).sort()
+    }
+}
+
+/**
+ * Updates the census of processes with `DYNAMIC_CENSUS` and an `OFF_CHAIN_TREE` or `OFF_CHAIN_TREE_WEIGHTED` census origin.
+ * The census is loaded from its `censusUri`, rebuilt with the given changes, published on the storage and set on the instance where the process was created.
+ */
+export class CensusUpdater {
+    readonly client: ProcessClient
+    readonly storage: IContentStorage
+    /** The maximum amount of blocks requested on a single `getLogs` call by `getHistory()` */
+    blockRange: number = 10000
+
+    /**
+     * @param client The client used to read and update the processes. It needs a signer of the entity to update the census.
+     * @param storage Where census trees are fetched from and published to
+     */
+    constructor(client: ProcessClient, storage: IContentStorage) {
+        if (!client) throw new Error("Invalid client")
+        else if (!storage) throw new Error("Invalid storage")
+
+        this.client = client
+        this.storage = storage
+    }
+
+    /** Fetches the current census of the given process. Fails if the published tree does not match the `censusRoot` of the process. */
+    async getCensus(processId: string): Promise<CensusTree> {
+        const params = await this.client.getProcess(processId)
+        if (!params.censusOrigin.isOffChain && !params.censusOrigin.isOffChainWeighted) throw new Error("Unsupported census origin")
+
+        return this.fetchCensus(params.censusRoot, params.censusUri)
+    }
+
+    /** Fetches the census tree published on `censusUri` and checks that its root is `censusRoot` */
+    async fetchCensus(censusRoot: string, censusUri: string): Promise<CensusTree> {
+        const tree = CensusTree.import(await this.storage.fetch(censusUri))
+        if (tree.root != censusRoot.toLowerCase()) throw new Error("The census root does not match")
+
+        return tree
+    }
+
+    /**
+     * Applies the given changes to the current census of the process, publishes the new tree and calls `setCensus()`.
+     * Resolves with the updated parameters of the process, the new census and the differences with the previous one.
+     */
+    async update(processId: string, changes: ICensusChanges, overrides?: IMethodOverrides): Promise<{ params: ProcessContractParameters, census: CensusTree, diff: ICensusDiff }> {
+        if (!changes) throw new Error("Invalid changes")
+
+        const params = await this.client.getProcess(processId)
+        if (!params.status.isReady && !params.status.isPaused) throw new Error("Process terminated")
+        else if (!params.mode.hasDynamicCensus) throw new Error("Read-only census")
+        else if (!params.censusOrigin.isOffChain && !params.censusOrigin.isOffChainWeighted) throw new Error("Unsupported census origin")
+
+        const current = await this.fetchCensus(params.censusRoot, params.censusUri)
+        const removed = (changes.remove || []).map(publicKey => {
+            if (!current.hasVoter(publicKey)) throw new Error("Not in the census")
+            return current.getProof(publicKey).publicKey
+        })
+        const entries: (string | ICensusEntry)[] = current.entries.filter(entry => !removed.includes(entry.publicKey))
+
+        const census = CensusTree.build(entries.concat(changes.add || []), { weighted: current.weighted })
+        if (census.root == current.root) throw new Error("The census did not change")
+
+        const censusUri = await this.storage.publish(JSON.stringify(census.export()))
+        const updatedParams = await this.client.setCensus(processId, census.root, censusUri, overrides)
+
+        return { params: updatedParams, census, diff: diffCensus(current, census) }
+    }
+
+    /**
+     * Returns the censuses that the process has had, from its creation to the last `CensusUpdated` event.
+     * The state of each step is read at the block of its event, so only the last update of a block is reported if several happened on it.
+     * The events are requested in ranges of `blockRange` blocks.
+     * @param fromBlock (optional) The block where the scan of events starts. By default, the block where the instance holding the process was activated, since processes cannot be created earlier.
+     */
+    async getHistory(processId: string, fromBlock?: number): Promise<ICensusHistoryEntry[]> {
+        const instance = await this.client.resolver.getProcessInstance(processId)
+        if (typeof fromBlock != "number") fromBlock = (await instance.activationBlock()).toNumber()
+        const toBlock = await instance.provider.getBlockNumber()
+
+        const key = processId.toLowerCase()
+        const topics = [[instance.interface.getEventTopic("NewProcess"), instance.interface.getEventTopic("CensusUpdated")]]
+        const events: IProcessEvent[] = []
+        await scanProcessEvents([instance], { fromBlock, toBlock, blockRange: this.blockRange, topics }, async rangeEvents => {
+            events.push(...rangeEvents.filter(event =>
+                (event.name == "NewProcess" || event.name == "CensusUpdated") && event.processId.toLowerCase() == key
+            ))
+        })
+
+        const result: ICensusHistoryEntry[] = []
+        for (let event of events) {
+            if (result.length && result[result.length - 1].blockNumber == event.blockNumber) result.pop()
+
+            const state = await instance.get(processId, { blockTag: event.blockNumber })
+            result.push({
+                event: event.name as "NewProcess" | "CensusUpdated",
+                blockNumber: event.blockNumber,
+                transactionHash: event.transactionHash,
+                censusRoot: state[2][1],
+                censusUri: state[2][2]
+            })
+        }
+        return result
+    }
+}
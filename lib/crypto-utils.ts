@@ -0,0 +1,101 @@
+import { createCipheriv, createDecipheriv } from "crypto"
+import { BigNumber, BigNumberish, constants, utils } from "ethers"
+
+// Helpers shared by the census, metadata and vote modules
+
+/** Returns the compressed form of the given secp256k1 public key, compressed or not. Fails with `Invalid public key` otherwise. */
+export function normalizePublicKey(publicKey: string): string {
+    // computePublicKey() also accepts private keys (32 bytes)
+    if (!utils.isHexString(publicKey) || ![33, 65].includes(utils.hexDataLength(publicKey)))
+        throw new Error("Invalid public key")
+
+    try {
+        return utils.computePublicKey(publicKey, true)
+    }
+    catch (err) {
+        throw new Error("Invalid public key")
+    }
+}
+
+/** Returns true if the given value is a secp256k1 public key, compressed or not */
+export function isPublicKey(publicKey: string): boolean {
+    try {
+        normalizePublicKey(publicKey)
+        return true
+    }
+    catch (err) {
+        return false
+    }
+}
+
+/** Parses a voting weight from 1 to `max` (`uint256` by default). Fails with `Invalid weight` otherwise. */
+export function parseWeight(weight: BigNumberish, max: BigNumberish = constants.MaxUint256): BigNumber {
+    let result: BigNumber
+    try {
+        result = BigNumber.from(weight)
+    }
+    catch (err) {
+        throw new Error("Invalid weight")
+    }
+    if (result.lte(0) || result.gt(max)) throw new Error("Invalid weight")
+    return result
+}
+
+/** AES-256-GCM ciphertext along with its random IV and authentication tag, as hex strings */
+export type IAesPayload = {
+    iv: string,
+    tag: string,
+    ciphertext: string
+}
+
+/**
+ * AES-256-GCM payload encrypted for a public key. The AES key is the keccak256 hash
+ * of the ECDH secret shared between `ephemeralPublicKey` and the recipient.
+ */
+export type IEciesPayload = IAesPayload & {
+    ephemeralPublicKey: string
+}
+
+export function aesEncrypt(key: Uint8Array, plaintext: Uint8Array): IAesPayload {
+    const iv = utils.randomBytes(12)
+    const cipher = createCipheriv("aes-256-gcm", key, iv)
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+
+    return { iv: utils.hexlify(iv), tag: utils.hexlify(cipher.getAuthTag()), ciphertext: utils.hexlify(ciphertext) }
+}
+
+export function aesDecrypt(key: Uint8Array, payload: IAesPayload): Uint8Array {
+    const decipher = createDecipheriv("aes-256-gcm", key, utils.arrayify(payload.iv))
+    decipher.setAuthTag(utils.arrayify(payload.tag))
+
+    return Buffer.concat([decipher.update(utils.arrayify(payload.ciphertext)), decipher.final()])
+}
+
+/** Encrypts the given data for the given public key, using a new ephemeral key */
+export function eciesEncrypt(publicKey: string, plaintext: Uint8Array): IEciesPayload {
+    const ephemeralKey = new utils.SigningKey(utils.randomBytes(32))
+    const sharedKey = utils.arrayify(utils.keccak256(ephemeralKey.computeSharedSecret(publicKey)))
+
+    return { ephemeralPublicKey: ephemeralKey.compressedPublicKey, ...aesEncrypt(sharedKey, plaintext) }
+}
+
+export function eciesDecrypt(privateKey: string, payload: IEciesPayload): Uint8Array {
+    const sharedKey = utils.arrayify(utils.keccak256(new utils.SigningKey(privateKey).computeSharedSecret(payload.ephemeralPublicKey)))
+    return aesDecrypt(sharedKey, payload)
+}
+
+/** Packs the given payload as `ephemeralPublicKey (33) | iv (12) | tag (16) | ciphertext` */
+export function packEciesPayload(payload: IEciesPayload): Uint8Array {
+    return utils.concat([payload.ephemeralPublicKey, payload.iv, payload.tag, payload.ciphertext])
+}
+
+export function unpackEciesPayload(data: Uint8Array): IEciesPayload {
+    if (data.length < 33 + 12 + 16) throw new Error("Invalid payload")
+
+    return {
+        ephemeralPublicKey: utils.hexlify(data.slice(0, 33)),
+        iv: utils.hexlify(data.slice(33, 45)),
+        tag: utils.hexlify(data.slice(45, 61)),
+        ciphertext: utils.hexlify(data.slice(61))
+    }
+}
@@ -0,0 +1,191 @@
+import { utils } from "ethers"
+import { aesDecrypt, aesEncrypt, eciesDecrypt, eciesEncrypt, normalizePublicKey } from "./crypto-utils"
+import { ContentHashedUri, IProcessCreateParams, ProcessContractParameters, ProcessMode } from "./index"
+import { checkProcessMetadata, fetchContentHashedUri, IContentFetcher, IContentFetchOptions, IProcessMetadata, validateProcessMetadata } from "./process-metadata"
+
+/** Identifies the documents produced by `encryptProcessMetadata()` */
+export const ENCRYPTED_METADATA_ALGORITHM = "aes-256-gcm"
+
+/**
+ * The document published on the `metadata` URI of processes with `ENCRYPTED_METADATA`.
+ * `ciphertext` holds the AES-256-GCM encryption of the JSON metadata. All binary fields are hex strings.
+ */
+export type IEncryptedMetadata = {
+    algorithm: string,
+    iv: string,
+    tag: string,
+    ciphertext: string
+}
+
+/**
+ * The metadata key, encrypted for a census member. The AES-256-GCM key is the keccak256 hash
+ * of the ECDH secret shared between an ephemeral key and the public key of the member.
+ */
+export type IWrappedMetadataKey = {
+    /** Compressed public key of the member */
+    publicKey: string,
+    ephemeralPublicKey: string,
+    iv: string,
+    tag: string,
+    ciphertext: string
+}
+
+/** Returns a new random key to encrypt the metadata of a process */
+export function generateMetadataKey(): string {
+    return utils.hexlify(utils.randomBytes(32))
+}
+
+/** Encrypts the given metadata document. Fails if the document is not valid. */
+export function encryptProcessMetadata(metadata: IProcessMetadata, key: string): IEncryptedMetadata {
+    const errors = validateProcessMetadata(metadata)
+    if (errors.length) throw new Error(errors[0])
+
+    const { iv, tag, ciphertext } = aesEncrypt(parseKey(key), utils.toUtf8Bytes(JSON.stringify(metadata)))
+    return { algorithm: ENCRYPTED_METADATA_ALGORITHM, iv, tag, ciphertext }
+}
+
+/** Decrypts the given document, as an object or as the JSON string that was published. Fails if the key is wrong or the metadata is not valid. */
+export function decryptProcessMetadata(encrypted: IEncryptedMetadata | string, key: string): IProcessMetadata {
+    const document = typeof encrypted == "string" ? parseEncryptedMetadata(encrypted) : encrypted
+    if (!isEncryptedMetadata(document)) throw new Error("Invalid encrypted metadata")
+
+    let metadata: IProcessMetadata
+    try {
+        metadata = JSON.parse(utils.toUtf8String(aesDecrypt(parseKey(key), document)))
+    }
+    catch (err) {
+        if (err.message == "Invalid key") throw err
+        throw new Error("Could not decrypt the metadata")
+    }
+
+    const errors = validateProcessMetadata(metadata)
+    if (errors.length) throw new Error(errors[0])
+    return metadata
+}
+
+/** Returns true if the given value (object or JSON string) is an encrypted metadata document */
+export function isEncryptedMetadata(value: IEncryptedMetadata | string): boolean {
+    const document = typeof value == "string" ? parseEncryptedMetadata(value, false) : value
+    if (!document || typeof document != "object") return false
+
+    return document.algorithm == ENCRYPTED_METADATA_ALGORITHM &&
+        utils.isHexString(document.iv, 12) && utils.isHexString(document.tag, 16) && utils.isHexString(document.ciphertext)
+}
+
+/**
+ * Returns the `metadata` value of the process: the given locations, followed by the hash of the document to publish on them.
+ * The content to publish is `JSON.stringify(encrypted)`.
+ */
+export function getEncryptedMetadataUri(encrypted: IEncryptedMetadata, uris: string | string[]): string {
+    if (!isEncryptedMetadata(encrypted)) throw new Error("Invalid encrypted metadata")
+    return ContentHashedUri.build(uris, JSON.stringify(encrypted)).toString()
+}
+
+/**
+ * Encrypts the metadata of a process with `ENCRYPTED_METADATA` and returns its parameters with the `metadata` URI set,
+ * along with the content to publish on the given locations. Fails if the mode does not include `ENCRYPTED_METADATA`.
+ */
+export function makeEncryptedMetadataParams(params: IProcessCreateParams, metadata: IProcessMetadata, key: string, uris: string | string[]): { params: IProcessCreateParams, content: string } {
+    if (!params) throw new Error("Invalid parameters")
+
+    const mode = typeof params.mode == "number" ? new ProcessMode(params.mode) : params.mode
+    if (!mode.hasEncryptedMetadata) throw new Error("The process mode does not include ENCRYPTED_METADATA")
+
+    const encrypted = encryptProcessMetadata(metadata, key)
+    return {
+        params: { ...params, metadata: getEncryptedMetadataUri(encrypted, uris) },
+        content: JSON.stringify(encrypted)
+    }
+}
+
+/**
+ * Checks that the content published on the `metadata` URI is consistent with the mode of the process:
+ * processes with `ENCRYPTED_METADATA` cannot publish a plaintext document and the rest of processes cannot publish an encrypted one.
+ * When the URI carries a keccak256 hash, the content also needs to match it.
+ */
+export function checkMetadataEncryption(params: IProcessCreateParams | ProcessContractParameters, content: string) {
+    if (!params) throw new Error("Invalid parameters")
+    else if (typeof content != "string") throw new Error("Invalid content")
+
+    const mode = typeof params.mode == "number" ? new ProcessMode(params.mode) : params.mode
+    const encrypted = isEncryptedMetadata(content)
+
+    if (mode.hasEncryptedMetadata && !encrypted) throw new Error("The metadata needs to be encrypted")
+    else if (!mode.hasEncryptedMetadata && encrypted) throw new Error("The process mode does not include ENCRYPTED_METADATA")
+
+    const cUri = new ContentHashedUri(params.metadata)
+    if (cUri.hasHash && /^[0-9a-f]{64}$/.test(cUri.hash) && !cUri.verify(content))
+        throw new Error("The content does not match the metadata hash")
+}
+
+/** Encrypts the metadata key for each one of the given census members */
+export function wrapMetadataKey(key: string, publicKeys: string[]): IWrappedMetadataKey[] {
+    if (!Array.isArray(publicKeys)) throw new Error("Invalid public keys")
+    const keyBytes = parseKey(key)
+
+    return publicKeys.map(publicKey => {
+        const recipient = normalizePublicKey(publicKey)
+        const { ephemeralPublicKey, iv, tag, ciphertext } = eciesEncrypt(recipient, keyBytes)
+
+        return { publicKey: recipient, ephemeralPublicKey, iv, tag, ciphertext }
+    })
+}
+
+/**
+ * Decrypts the metadata key with the private key of a census member.
+ * When a list is given, the entry of the member is used. Fails if there is none.
+ */
+export function unwrapMetadataKey(wrappedKeys: IWrappedMetadataKey | IWrappedMetadataKey[], privateKey: string): string {
+    let signingKey: utils.SigningKey
+    try {
+        signingKey = new utils.SigningKey(privateKey)
+    }
+    catch (err) {
+        throw new Error("Invalid private key")
+    }
+
+    const list = Array.isArray(wrappedKeys) ? wrappedKeys : [wrappedKeys]
+    const wrappedKey = list.find(item => item && item.publicKey == signingKey.compressedPublicKey)
+    if (!wrappedKey) throw new Error("The metadata key is not available for the given private key")
+
+    try {
+        return utils.hexlify(eciesDecrypt(signingKey.privateKey, wrappedKey))
+    }
+    catch (err) {
+        throw new Error("Could not decrypt the metadata key")
+    }
+}
+
+/**
+ * Fetches the encrypted metadata of a process (see `loadProcessMetadata()`) and decrypts it with the given key.
+ * The document is validated and, when `params` are given, checked against them. The first error is thrown.
+ */
+export async function loadEncryptedProcessMetadata(metadataUri: string, fetcher: IContentFetcher, key: string, params?: ProcessContractParameters, options: IContentFetchOptions = {}): Promise<IProcessMetadata> {
+    const content = await fetchContentHashedUri(metadataUri, fetcher, options)
+    if (content === null) throw new Error("Could not fetch a valid copy of the metadata")
+    else if (!isEncryptedMetadata(content)) throw new Error("The metadata is not encrypted")
+
+    const metadata = decryptProcessMetadata(content, key)
+    if (params) {
+        const errors = checkProcessMetadata(metadata, params)
+        if (errors.length) throw new Error(errors[0])
+    }
+    return metadata
+}
+
+// HELPERS
+
+function parseKey(key: string): Uint8Array {
+    if (!utils.isHexString(key, 32)) throw new Error("Invalid key")
+    return utils.arrayify(key)
+}
+
+function parseEncryptedMetadata(content: string, strict = true): IEncryptedMetadata {
+    try {
+        return JSON.parse(content)
+    }
+    catch (err) {
+        if (strict) throw new Error("Invalid encrypted metadata")
+        return null
+    }
+}
@@ -0,0 +1,256 @@
+import { utils } from "ethers"
+
+/** Selector of the `Error(string)` payload that carries a revert reason */
+const ERROR_STRING_SELECTOR = "0x08c379a0"
+
+///////////////////////////////////////////////////////////////////////////////
+// ERROR CLASSES
+///////////////////////////////////////////////////////////////////////////////
+
+/** A transaction or call reverted by one of the contracts. Unknown revert reasons are raised as a plain `ContractError`. */
+export class ContractError extends Error {
+    /** The revert string of the contract */
+    readonly reason: string
+    /** The original error, as raised by the provider */
+    readonly cause: unknown
+
+    constructor(reason: string, cause?: unknown) {
+        super(reason)
+        this.name = this.constructor.name
+        this.reason = reason
+        this.cause = cause
+    }
+}
+
+// Permissions
+
+/** The sender is not allowed to perform the operation */
+export class UnauthorizedError extends ContractError { }
+/** Only oracles registered on the namespace of the process can publish results */
+export class NotOracleError extends UnauthorizedError { }
+/** Only the creator of the process can update it */
+export class InvalidEntityError extends UnauthorizedError { }
+/** Only the owner of the contract can perform the operation */
+export class NotContractOwnerError extends UnauthorizedError { }
+
+// Processes
+
+/** The process does not exist on the instance */
+export class ProcessNotFoundError extends ContractError {
+    /** When true, the instance has a predecessor where the process might have been created */
+    readonly tryPredecessor: boolean
+
+    constructor(reason: string, cause?: unknown) {
+        super(reason, cause)
+        this.tryPredecessor = reason == "Not found: Try on predecessor"
+    }
+}
+/** The current state of the process does not allow the operation */
+export class ProcessStateError extends ContractError { }
+/** The process is `ENDED`, `CANCELED` or it has `RESULTS` and it cannot be updated anymore */
+export class ProcessTerminatedError extends ProcessStateError { }
+/** The mode of the process does not include `INTERRUPTIBLE` */
+export class NotInterruptibleError extends ProcessStateError { }
+/** The mode of the process does not include `DYNAMIC_CENSUS` */
+export class ReadOnlyCensusError extends ProcessStateError { }
+/** The process has an EVM census and it cannot be updated by anyone */
+export class NotOffChainError extends ProcessStateError { }
+/** The process needs to be `READY` */
+export class ProcessNotReadyError extends ProcessStateError { }
+/** The envelope type of the process does not include `SERIAL` */
+export class ProcessNotSerialError extends ProcessStateError { }
+/** The process is `CANCELED` or its results are already available */
+export class ResultsNotAllowedError extends ProcessStateError { }
+
+// Instances
+
+/** The instance is not active yet, or it has been replaced by a successor */
+export class InactiveInstanceError extends ContractError { }
+/** The instance cannot be chained to the given predecessor or successor */
+export class ChainingError extends ContractError { }
+
+// Tokens and storage proofs
+
+/** The token contract is not registered on the Token Storage Proof contract */
+export class TokenNotRegisteredError extends ContractError { }
+/** The token contract is already registered on the Token Storage Proof contract */
+export class TokenAlreadyRegisteredError extends ContractError { }
+/** The sender does not hold any tokens */
+export class InsufficientFundsError extends ContractError { }
+/** A block header, account proof or storage proof could not be verified */
+export class StorageProofError extends ContractError { }
+
+// Arguments
+
+/** One of the given arguments is rejected by the contract */
+export class InvalidArgumentError extends ContractError { }
+
+///////////////////////////////////////////////////////////////////////////////
+// REVERT REASONS
+///////////////////////////////////////////////////////////////////////////////
+
+type IContractErrorClass = new (reason: string, cause?: unknown) => ContractError
+
+const errorClasses: { [reason: string]: IContractErrorClass } = {
+    // Owned and Chained
+    "onlyContractOwner": NotContractOwnerError,
+    "Inactive": InactiveInstanceError,
+    "Unauthorized": UnauthorizedError,
+    "Already has a predecessor": ChainingError,
+    "Already activated": ChainingError,
+    "Already active": ChainingError,
+    "Already inactive": ChainingError,
+    "Must be active": ChainingError,
+    "Can't be itself": ChainingError,
+    "Invalid predecessor": ChainingError,
+    "Not a contract": ChainingError,
+
+    // Processes
+    "Not found": ProcessNotFoundError,
+    "Not found: Try on predecessor": ProcessNotFoundError,
+    "Not oracle": NotOracleError,
+    "Invalid entity": InvalidEntityError,
+    "Process terminated": ProcessTerminatedError,
+    "Not interruptible": NotInterruptibleError,
+    "Read-only census": ReadOnlyCensusError,
+    "Not off-chain": NotOffChainError,
+    "Process not ready": ProcessNotReadyError,
+    "Process not serial": ProcessNotSerialError,
+    "Canceled or already set": ResultsNotAllowedError,
+    "Token not registered": TokenNotRegisteredError,
+    "Insufficient funds": InsufficientFundsError,
+    "Unsupported census origin": InvalidArgumentError,
+    "Auto start requires a start block": InvalidArgumentError,
+    "Uninterruptible needs blockCount": InvalidArgumentError,
+    "Auto start is needed on EVM processes": InvalidArgumentError,
+    "Interruptible not allowed on EVM processes": InvalidArgumentError,
+    "Dynamic census not allowed on EVM processes": InvalidArgumentError,
+    "Invalid census origin value": InvalidArgumentError,
+    "Invalid token address": InvalidArgumentError,
+    "Invalid start block": InvalidArgumentError,
+    "Invalid blockCount": InvalidArgumentError,
+    "No metadata": InvalidArgumentError,
+    "No censusRoot": InvalidArgumentError,
+    "No censusUri": InvalidArgumentError,
+    "No questionCount": InvalidArgumentError,
+    "Invalid maxCount": InvalidArgumentError,
+    "No maxValue": InvalidArgumentError,
+    "Invalid status code": InvalidArgumentError,
+    "Must differ": InvalidArgumentError,
+    "No Census Root": InvalidArgumentError,
+    "No Census URI": InvalidArgumentError,
+    "No votes": InvalidArgumentError,
+    "Invalid length": InvalidArgumentError,
+    "Invalid namespace": InvalidArgumentError,
+    "Invalid tokenStorageProof": InvalidArgumentError,
+
+    // Namespaces
+    "Invalid index": InvalidArgumentError,
+    "Index-key mismatch": InvalidArgumentError,
+    "Already present": InvalidArgumentError,
+
+    // Token Storage Proof
+    "Invalid address": InvalidArgumentError,
+    "The address must be a contract": InvalidArgumentError,
+    "Token already registered": TokenAlreadyRegisteredError,
+    "No funds located": StorageProofError,
+    "no data": StorageProofError,
+    "blockhash not available": StorageProofError,
+    "invalid block header": StorageProofError,
+    "mismatch on the blockhash provided": StorageProofError,
+    "failed decoding Trie": StorageProofError,
+    "Bad empty proof": StorageProofError,
+    "bad first proof part": StorageProofError,
+    "bad hash": StorageProofError,
+    "divergent node must come last in proof": StorageProofError,
+    "leaf must come last in proof": StorageProofError,
+    "extension node cannot be at last level": StorageProofError,
+    "if branch node each element has to be a nibble": StorageProofError,
+    "leaf nodes only at last level": StorageProofError,
+    "should be at last level": StorageProofError
+}
+
+/**
+ * Extracts the revert string from the error raised by ethers.js or by the provider (Ganache, Geth, ...).
+ * Returns `null` when the error does not carry any revert reason.
+ */
+export function getRevertReason(error: unknown): string {
+    return findRevertReason(error, 0)
+}
+
+/**
+ * Turns the error raised when calling any method of `ProcessContractMethods`, `NamespaceContractMethods` or `TokenStorageProofContractMethods`
+ * into the `ContractError` subclass that matches its revert reason. Errors that carry no revert reason are returned as they are,
+ * and other values without a revert reason are wrapped into an `Error`.
+ */
+export function parseContractError(error: unknown): Error {
+    const reason = getRevertReason(error)
+    if (reason === null) return error instanceof Error ? error : new Error(String(error))
+
+    const ErrorClass = errorClasses[reason] || ContractError
+    return new ErrorClass(reason, error)
+}
+
+// HELPERS
+
+const revertMessagePattern = /^(?:VM Exception while processing transaction: )?(?:revert|reverted with reason string|execution reverted:) '?(.*?)'?$/
+
+function findRevertReason(error: unknown, depth: number): string {
+    if (!error || depth > 5) return null
+    else if (typeof error == "string") {
+        if (error.startsWith(ERROR_STRING_SELECTOR)) return decodeErrorString(error)
+
+        const match = error.match(revertMessagePattern)
+        return match && match[1] ? match[1] : null
+    }
+    else if (typeof error != "object") return null
+
+    const fields = error as { [key: string]: unknown }
+
+    // Nested errors carry the details of the provider
+    for (let key of ["error", "data"]) {
+        const nested = fields[key]
+        if (typeof nested != "object") continue
+
+        const reason = findRevertReason(nested, depth + 1)
+        if (reason !== null) return reason
+    }
+    if (typeof fields.body == "string") {
+        try {
+            const reason = findRevertReason(JSON.parse(fields.body), depth + 1)
+            if (reason !== null) return reason
+        }
+        catch (err) { }
+    }
+    if (fields.results && typeof fields.results == "object") {
+        const results = fields.results as { [hash: string]: unknown }
+        for (let hash in results) {
+            const result = results[hash]
+            if (!result || typeof result != "object") continue
+
+            const { reason } = result as { reason?: unknown }
+            if (typeof reason == "string") return reason
+        }
+    }
+    if (typeof fields.data == "string" && fields.data.startsWith(ERROR_STRING_SELECTOR)) {
+        return decodeErrorString(fields.data)
+    }
+    if (typeof fields.message == "string") {
+        const reason = findRevertReason(fields.message, depth + 1)
+        if (reason !== null) return reason
+    }
+    // Decoded by ethers.js
+    if (fields.code == "CALL_EXCEPTION" && Array.isArray(fields.errorArgs) && typeof fields.errorArgs[0] == "string") {
+        return fields.errorArgs[0]
+    }
+    return null
+}
+
+function decodeErrorString(data: string): string {
+    try {
+        return utils.defaultAbiCoder.decode(["string"], utils.hexDataSlice(data, 4))[0]
+    }
+    catch (err) {
+        return null
+    }
+}
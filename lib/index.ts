@@ -25,6 +25,13 @@ export type IMethodOverrides = {
 }
 export declare const defaultMethodOverrides: IMethodOverrides
 
+/** Optional parameters for read-only calls */
+export type ICallOverrides = {
+    /** Perform the call against the state of the given block */
+    blockTag?: number | string
+    from?: string
+}
+
 ///////////////////////////////////////////////////////////////////////////////
 // ENTITY RESOLVER TYPES
 ///////////////////////////////////////////////////////////////////////////////
@@ -109,7 +116,7 @@ export class ProcessMode {
     public static ENCRYPTED_METADATA: IProcessMode = 1 << 3
 
     /** Returns the value that represents the given process mode */
-    public static make(flags: { autoStart?: boolean, interruptible?: boolean, dynamicCensus?: boolean, encryptedMetadata?: boolean } = {}): IProcessMode {
+    public static make(flags: IProcessModeFlags = {}): IProcessMode {
         let result = 0
         result |= flags.autoStart ? ProcessMode.AUTO_START : 0
         result |= flags.interruptible ? ProcessMode.INTERRUPTIBLE : 0
@@ -126,8 +133,72 @@ export class ProcessMode {
     get hasDynamicCensus(): boolean { return (this._mode & ProcessMode.DYNAMIC_CENSUS) != 0 }
     /** Returns true if the process metadata is expected to be encrypted. */
     get hasEncryptedMetadata(): boolean { return (this._mode & ProcessMode.ENCRYPTED_METADATA) != 0 }
+
+    /** Returns the flags that are set, in the format accepted by `make()` */
+    toFlags(): IProcessModeFlags {
+        return {
+            autoStart: this.isAutoStart,
+            interruptible: this.isInterruptible,
+            dynamicCensus: this.hasDynamicCensus,
+            encryptedMetadata: this.hasEncryptedMetadata
+        }
+    }
+
+    /** Returns the wrapper of the process mode with the given flags */
+    static fromFlags(flags: IProcessModeFlags): ProcessMode {
+        return new ProcessMode(ProcessMode.make(flags))
+    }
+
+    /** Returns the names of the flags that are set (`["AUTO_START", "DYNAMIC_CENSUS"]`) */
+    get flagNames(): string[] {
+        return processModeFlagNames.filter(([flag]) => (this._mode & flag) != 0).map(([, name]) => name)
+    }
+
+    /** Returns the names of the flags that are set, like `AUTO_START | DYNAMIC_CENSUS`, or `NONE` */
+    toString(): string {
+        return this.flagNames.join(" | ") || "NONE"
+    }
+
+    /** Returns a human readable description of the flags that are set */
+    describe(): string {
+        const result = processModeFlagNames.filter(([flag]) => (this._mode & flag) != 0).map(([, , description]) => description)
+        return result.join(", ") || "Default mode"
+    }
+
+    /** Returns the names of the flags set on `other` but not on this value (`added`) and the other way around (`removed`) */
+    diff(other: ProcessMode | IProcessMode): { added: string[], removed: string[] } {
+        const otherNames = (typeof other == "number" ? new ProcessMode(other) : other).flagNames
+        return {
+            added: otherNames.filter(name => !this.flagNames.includes(name)),
+            removed: this.flagNames.filter(name => !otherNames.includes(name))
+        }
+    }
+
+    /** Serializes the mode as the list of its flag names */
+    toJSON(): string[] { return this.flagNames }
+
+    /** Parses the output of `toJSON()`. A numeric value is also accepted. */
+    static fromJSON(json: string[] | IProcessMode): ProcessMode {
+        if (typeof json == "number") return new ProcessMode(json)
+        else if (!Array.isArray(json)) throw new Error("Invalid process mode")
+
+        return new ProcessMode(json.reduce((acc, name) => {
+            const entry = processModeFlagNames.find(([, flagName]) => flagName == name)
+            if (!entry) throw new Error("Invalid process mode")
+            return acc | entry[0]
+        }, 0))
+    }
 }
 
+export type IProcessModeFlags = { autoStart?: boolean, interruptible?: boolean, dynamicCensus?: boolean, encryptedMetadata?: boolean }
+
+const processModeFlagNames: [IProcessMode, string, string][] = [
+    [ProcessMode.AUTO_START, "AUTO_START", "Auto start"],
+    [ProcessMode.INTERRUPTIBLE, "INTERRUPTIBLE", "Interruptible"],
+    [ProcessMode.DYNAMIC_CENSUS, "DYNAMIC_CENSUS", "Dynamic census"],
+    [ProcessMode.ENCRYPTED_METADATA, "ENCRYPTED_METADATA", "Encrypted metadata"]
+]
+
 // PROCESS ENVELOPE TYPE
 
 export type IProcessEnvelopeType = number
@@ -152,7 +223,7 @@ export class ProcessEnvelopeType {
     public static UNIQUE_VALUES: IProcessEnvelopeType = 1 << 3
 
     /** Returns the value that represents the given envelope type */
-    public static make(flags: { serial?: boolean, anonymousVoters?: boolean, encryptedVotes?: boolean, uniqueValues?: boolean } = {}): IProcessEnvelopeType {
+    public static make(flags: IProcessEnvelopeTypeFlags = {}): IProcessEnvelopeType {
         let result = 0
         result |= flags.serial ? ProcessEnvelopeType.SERIAL : 0
         result |= flags.anonymousVoters ? ProcessEnvelopeType.ANONYMOUS : 0
@@ -169,8 +240,72 @@ export class ProcessEnvelopeType {
     get hasEncryptedVotes(): boolean { return (this._type & ProcessEnvelopeType.ENCRYPTED_VOTES) != 0 }
     /** Returns true if choices must be unique per question. */
     get hasUniqueValues(): boolean { return (this._type & ProcessEnvelopeType.UNIQUE_VALUES) != 0 }
+
+    /** Returns the flags that are set, in the format accepted by `make()` */
+    toFlags(): IProcessEnvelopeTypeFlags {
+        return {
+            serial: this.hasSerialVoting,
+            anonymousVoters: this.hasAnonymousVoters,
+            encryptedVotes: this.hasEncryptedVotes,
+            uniqueValues: this.hasUniqueValues
+        }
+    }
+
+    /** Returns the wrapper of the envelope type with the given flags */
+    static fromFlags(flags: IProcessEnvelopeTypeFlags): ProcessEnvelopeType {
+        return new ProcessEnvelopeType(ProcessEnvelopeType.make(flags))
+    }
+
+    /** Returns the names of the flags that are set (`["SERIAL", "ENCRYPTED_VOTES"]`) */
+    get flagNames(): string[] {
+        return envelopeTypeFlagNames.filter(([flag]) => (this._type & flag) != 0).map(([, name]) => name)
+    }
+
+    /** Returns the names of the flags that are set, like `SERIAL | ENCRYPTED_VOTES`, or `NONE` */
+    toString(): string {
+        return this.flagNames.join(" | ") || "NONE"
+    }
+
+    /** Returns a human readable description of the flags that are set */
+    describe(): string {
+        const result = envelopeTypeFlagNames.filter(([flag]) => (this._type & flag) != 0).map(([, , description]) => description)
+        return result.join(", ") || "Default envelope type"
+    }
+
+    /** Returns the names of the flags set on `other` but not on this value (`added`) and the other way around (`removed`) */
+    diff(other: ProcessEnvelopeType | IProcessEnvelopeType): { added: string[], removed: string[] } {
+        const otherNames = (typeof other == "number" ? new ProcessEnvelopeType(other) : other).flagNames
+        return {
+            added: otherNames.filter(name => !this.flagNames.includes(name)),
+            removed: this.flagNames.filter(name => !otherNames.includes(name))
+        }
+    }
+
+    /** Serializes the envelope type as the list of its flag names */
+    toJSON(): string[] { return this.flagNames }
+
+    /** Parses the output of `toJSON()`. A numeric value is also accepted. */
+    static fromJSON(json: string[] | IProcessEnvelopeType): ProcessEnvelopeType {
+        if (typeof json == "number") return new ProcessEnvelopeType(json)
+        else if (!Array.isArray(json)) throw new Error("Invalid envelope type")
+
+        return new ProcessEnvelopeType(json.reduce((acc, name) => {
+            const entry = envelopeTypeFlagNames.find(([, flagName]) => flagName == name)
+            if (!entry) throw new Error("Invalid envelope type")
+            return acc | entry[0]
+        }, 0))
+    }
 }
 
+export type IProcessEnvelopeTypeFlags = { serial?: boolean, anonymousVoters?: boolean, encryptedVotes?: boolean, uniqueValues?: boolean }
+
+const envelopeTypeFlagNames: [IProcessEnvelopeType, string, string][] = [
+    [ProcessEnvelopeType.SERIAL, "SERIAL", "Serial voting"],
+    [ProcessEnvelopeType.ANONYMOUS, "ANONYMOUS", "Anonymous voters"],
+    [ProcessEnvelopeType.ENCRYPTED_VOTES, "ENCRYPTED_VOTES", "Encrypted votes"],
+    [ProcessEnvelopeType.UNIQUE_VALUES, "UNIQUE_VALUES", "Unique values"]
+]
+
 // PROCESS CENSUS ORIGIN
 
 /** Wrapper class to enumerate and handle valid values of a process census origin */
@@ -207,9 +342,25 @@ export class ProcessCensusOrigin {
     get isErc1155(): boolean { return this._status == ProcessCensusOrigin.ERC1155 }
     get isErc777(): boolean { return this._status == ProcessCensusOrigin.ERC777 }
     get isMiniMe(): boolean { return this._status == ProcessCensusOrigin.MINI_ME }
+
+    /** Returns the name of the census origin, like `OFF_CHAIN_TREE` */
+    toString(): string { return censusOriginNames[this._status][0] }
+
+    /** Returns a human readable description of the census origin */
+    describe(): string { return censusOriginNames[this._status][1] }
 }
 
 export type IProcessCensusOrigin = 1 | 2 | 3 | 11 | 12 | 13 | 14 | 15
+const censusOriginNames: { [origin: number]: [string, string] } = {
+    [ProcessCensusOrigin.OFF_CHAIN_TREE]: ["OFF_CHAIN_TREE", "Off-chain Merkle tree"],
+    [ProcessCensusOrigin.OFF_CHAIN_TREE_WEIGHTED]: ["OFF_CHAIN_TREE_WEIGHTED", "Off-chain weighted Merkle tree"],
+    [ProcessCensusOrigin.OFF_CHAIN_CA]: ["OFF_CHAIN_CA", "Off-chain Certification Authority"],
+    [ProcessCensusOrigin.ERC20]: ["ERC20", "ERC20 token holders"],
+    [ProcessCensusOrigin.ERC721]: ["ERC721", "ERC721 token holders"],
+    [ProcessCensusOrigin.ERC1155]: ["ERC1155", "ERC1155 token holders"],
+    [ProcessCensusOrigin.ERC777]: ["ERC777", "ERC777 token holders"],
+    [ProcessCensusOrigin.MINI_ME]: ["MINI_ME", "MiniMe token holders"]
+}
 export const processCensusOriginValues = [
     ProcessCensusOrigin.OFF_CHAIN_TREE,
     ProcessCensusOrigin.OFF_CHAIN_TREE_WEIGHTED,
@@ -248,9 +399,66 @@ export class ProcessStatus {
     get isCanceled(): boolean { return this._status == ProcessStatus.CANCELED }
     get isPaused(): boolean { return this._status == ProcessStatus.PAUSED }
     get hasResults(): boolean { return this._status == ProcessStatus.RESULTS }
+
+    /** Returns the name of the status, like `READY` */
+    toString(): string { return processStatusNames[this._status][0] }
+
+    /** Returns a human readable description of the status */
+    describe(): string { return processStatusNames[this._status][1] }
+
+    /**
+     * Returns true if the contract would accept changing the current status into `next`, following the same rules as `setStatus()` and `setResults()`.
+     * Ownership and the existence of the process are not checked.
+     */
+    canTransitionTo(next: IProcessStatus, context: IProcessStatusTransitionContext): boolean {
+        if (!context) throw new Error("Invalid context")
+        else if (!processStatusValues.includes(next)) throw new Error("Invalid status")
+
+        if (context.byOracle) {
+            // setResults(): Any status except CANCELED and RESULTS
+            return next == ProcessStatus.RESULTS && !this.isCanceled && !this.hasResults
+        }
+
+        const mode = typeof context.mode == "number" ? new ProcessMode(context.mode) : context.mode
+        const censusOrigin = typeof context.censusOrigin == "number" ? new ProcessCensusOrigin(context.censusOrigin as IProcessCensusOrigin) : context.censusOrigin
+
+        if (next == ProcessStatus.RESULTS) return false // Only oracles
+        else if (!censusOrigin.isOffChain && !censusOrigin.isOffChainWeighted && !censusOrigin.isOffChainCA) return false
+        else if (next == this._status) return false
+
+        if (this.isPaused) {
+            // Not interruptible => can only go from PAUSED to READY, the first time
+            return mode.isInterruptible || next == ProcessStatus.READY
+        }
+        else if (this.isReady) {
+            return mode.isInterruptible
+        }
+        // ENDED, CANCELED and RESULTS are final
+        return false
+    }
+
+    /** Returns the status values that the current status can be changed into, given the context of the process */
+    allowedTransitions(context: IProcessStatusTransitionContext): IProcessStatus[] {
+        return processStatusValues.filter(status => this.canTransitionTo(status, context))
+    }
 }
 
 export type IProcessStatus = 0 | 1 | 2 | 3 | 4
+const processStatusNames: { [status: number]: [string, string] } = {
+    [ProcessStatus.READY]: ["READY", "Ready"],
+    [ProcessStatus.ENDED]: ["ENDED", "Ended"],
+    [ProcessStatus.CANCELED]: ["CANCELED", "Canceled"],
+    [ProcessStatus.PAUSED]: ["PAUSED", "Paused"],
+    [ProcessStatus.RESULTS]: ["RESULTS", "Results available"]
+}
+
+/** The parameters of a process that determine its valid status transitions */
+export type IProcessStatusTransitionContext = {
+    mode: ProcessMode | IProcessMode,
+    censusOrigin: ProcessCensusOrigin | IProcessCensusOrigin,
+    /** When true, the transitions available to an oracle (`setResults()`) are evaluated instead of the ones available to the entity (`setStatus()`) */
+    byOracle?: boolean
+}
 export const processStatusValues = [
     ProcessStatus.READY,
     ProcessStatus.ENDED,
@@ -275,6 +483,76 @@ export class ProcessResults {
 
     set tally(tally: number[][]) { this._results.tally = tally }
     set height(height: number) { this._results.height = height }
+
+    /** Returns the values with the highest count on each question. Ties yield more than one value and questions without any votes yield none. */
+    getWinners(): number[][] {
+        return this._results.tally.map(question => {
+            const max = Math.max(0, ...question)
+            if (max == 0) return []
+            return question.reduce((acc, count, value) => count == max ? acc.concat(value) : acc, [] as number[])
+        })
+    }
+
+    /** Returns the count of every value on each question, as a percentage of `height` */
+    getPercentages(): number[][] {
+        return this._results.tally.map(question => question.map(count => count * 100 / this._results.height))
+    }
+
+    /** Returns the sum of every value multiplied by its count, on each question (useful for range and score voting) */
+    getWeightedSums(): number[] {
+        return this._results.tally.map(question => question.reduce((acc, count, value) => acc + count * value, 0))
+    }
+
+    /**
+     * Returns true if the tally could have been produced by `height` envelopes voting on a process with the given parameters:
+     * - One row per question (`questionCount`), with up to `maxValue + 1` counts (values from 0 to `maxValue`)
+     * - Up to `maxCount` choices per envelope and question (once per value if `uniqueValues` is set)
+     * - The cost of the choices cannot exceed `maxTotalCost` per envelope (if set)
+     *
+     * The limits of each envelope are not checked on weighted censuses, since counts are weights.
+     */
+    isValidFor(params: ProcessContractParameters): boolean {
+        const { tally, height } = this._results
+        if (!params) throw new Error("Invalid parameters")
+        else if (tally.length != params.questionCount) return false
+
+        const weighted = params.censusOrigin.isOffChainWeighted || !(params.censusOrigin.isOffChain || params.censusOrigin.isOffChainCA)
+        const exponent = costExponentToNumber(params.costExponent)
+
+        return tally.every(question => {
+            if (!Array.isArray(question) || question.length > params.maxValue + 1) return false
+            else if (question.some(count => typeof count != "number" || !Number.isInteger(count) || count < 0)) return false
+            else if (weighted) return true
+
+            const choices = question.reduce((acc, count) => acc + count, 0)
+            if (choices > height * params.maxCount) return false
+            else if (params.envelopeType.hasUniqueValues && question.some(count => count > height)) return false
+            else if (params.maxTotalCost == 0) return true
+
+            const cost = question.reduce((acc, count, value) => acc + count * Math.pow(value, exponent), 0)
+            return cost <= height * params.maxTotalCost
+        })
+    }
+
+    /** Returns a plain object with the tally and the height, whose keys are always serialized in the same order */
+    toJSON(): IProcessResults {
+        return {
+            tally: this._results.tally.map(question => question.slice()),
+            height: this._results.height
+        }
+    }
+
+    /** Exports the tally as CSV, with one line per question and value: `question,value,count,percentage` */
+    toCSV(): string {
+        const percentages = this.getPercentages()
+        const lines = ["question,value,count,percentage"]
+        this._results.tally.forEach((question, questionIdx) => {
+            question.forEach((count, value) => {
+                lines.push([questionIdx, value, count, percentages[questionIdx][value].toFixed(2)].join(","))
+            })
+        })
+        return lines.join("\n") + "\n"
+    }
 }
 
 export type IProcessResults = {
@@ -367,11 +645,11 @@ export interface ProcessContractMethods {
         maxTotalCost_costExponent_namespace: number[]
      * ]```
      */
-    get(processId: string): Promise<IProcessStateTuple>,
-    /** Retrieve the available results for the given process */
-    getParamsSignature(processId: string): Promise<{ paramsSignature: string }>
+    get(processId: string, overrides?: ICallOverrides): Promise<IProcessStateTuple>,
+    /** Retrieve the signature of the parameters of the given process */
+    getParamsSignature(processId: string, overrides?: ICallOverrides): Promise<string>
     /** Retrieve the available results for the given process */
-    getResults(processId: string): Promise<IProcessResults>
+    getResults(processId: string, overrides?: ICallOverrides): Promise<IProcessResults>
     /** Gets the address of the process instance where the given processId was originally created. 
      * This allows to know where to send update transactions, after a fork has occurred. */
     getCreationInstance(processId): Promise<string>,
@@ -416,8 +694,42 @@ export interface ProcessContractMethods {
     addResultsProof(processId: string, proof: string, overrides?: IMethodOverrides): Promise<ContractTransaction>,
 }
 
+/** Version of the schema produced by `ProcessContractParameters.toJSON()` */
+export const PROCESS_PARAMS_JSON_VERSION = 1
+
+/**
+ * Plain representation of `ProcessContractParameters`, safe to store or to send to other services.
+ * The mode and the envelope type are serialized as the names of their flags, the census origin and the status as their numeric values.
+ */
+export type IProcessContractParametersJson = {
+    version: number,
+    processId?: string,
+    mode: string[],
+    envelopeType: string[],
+    censusOrigin: IProcessCensusOrigin,
+    entityAddress?: string,
+    metadata: string,
+    censusRoot: string,
+    censusUri: string,
+    startBlock: number,
+    blockCount: number,
+    status?: IProcessStatus,
+    questionIndex?: number,
+    questionCount: number,
+    maxCount: number,
+    maxValue: number,
+    maxVoteOverwrites: number,
+    maxTotalCost: number,
+    costExponent: number,
+    namespace: number,
+    evmBlockHeight: number,
+    paramsSignature?: string,
+    results?: IProcessResults
+}
+
 /** Wraps and unwraps the parameters sent to `Process.newProcess()` and obtained from `Process.get()` for convenience */
 export class ProcessContractParameters {
+    processId?: string;
     mode: ProcessMode;
     envelopeType: ProcessEnvelopeType;
     censusOrigin: ProcessCensusOrigin;
@@ -438,29 +750,31 @@ export class ProcessContractParameters {
     namespace: number;
     evmBlockHeight: number;
     paramsSignature?: string;
+    /** Only when the status is `RESULTS` and the results have been fetched */
+    results?: ProcessResults;
 
     /** Parse a plain parameters object  */
     static fromParams(params: IProcessCreateParams): ProcessContractParameters {
         // Integrity checks
-        if (!params.metadata)
+        if (!params.metadata || !ContentHashedUri.isValid(params.metadata))
             throw new Error("Invalid metadata")
         else if (!params.censusRoot)
             throw new Error("Invalid censusRoot")
         // censusUri > see below
         else if (params.questionCount < 1 || params.questionCount > 255)
             throw new Error("Invalid questionCount")
-        else if (params.maxCount < 1 || params.maxCount > 255)
+        else if (params.maxCount < 1 || params.maxCount > 100)
             throw new Error("Invalid maxCount")
         else if (params.maxValue < 1 || params.maxValue > 255)
             throw new Error("Invalid maxValue")
         else if (params.maxVoteOverwrites < 0 || params.maxVoteOverwrites > 255)
             throw new Error("Invalid maxVoteOverwrites")
         // uniqueValues is either falsy or truthy
-        else if (params.maxTotalCost < 0 || params.maxTotalCost > 65355)
+        else if (params.maxTotalCost < 0 || params.maxTotalCost > 65535)
             throw new Error("Invalid maxTotalCost")
-        else if (params.costExponent < 0 || params.costExponent > 65355)
+        else if (params.costExponent < 0 || params.costExponent > 65535)
             throw new Error("Invalid costExponent")
-        else if (params.namespace < 0 || params.namespace > 65355)
+        else if (params.namespace < 0 || params.namespace > 65535)
             throw new Error("Invalid namespace")
         // evmBlockHeight > see below
         else if (!params.paramsSignature)
@@ -479,7 +793,7 @@ export class ProcessContractParameters {
         else result.censusOrigin = params.censusOrigin
 
         if (result.censusOrigin.isOffChain || result.censusOrigin.isOffChainWeighted || result.censusOrigin.isOffChainCA) {
-            if (!params.censusUri)
+            if (!params.censusUri || !ContentHashedUri.isValid(params.censusUri))
                 throw new Error("Invalid censusUri")
         } else {
             if (!result.mode.isAutoStart) {
@@ -606,6 +920,303 @@ export class ProcessContractParameters {
         if (transactionOptions) paramsResult.push(transactionOptions)
         return paramsResult
     }
+
+    /** Returns a plain object with all the defined fields, following the `PROCESS_PARAMS_JSON_VERSION` schema. Used by `JSON.stringify()`. */
+    toJSON(): IProcessContractParametersJson {
+        const result: IProcessContractParametersJson = {
+            version: PROCESS_PARAMS_JSON_VERSION,
+            mode: this.mode.toJSON(),
+            envelopeType: this.envelopeType.toJSON(),
+            censusOrigin: this.censusOrigin.value,
+            metadata: this.metadata,
+            censusRoot: this.censusRoot,
+            censusUri: this.censusUri,
+            startBlock: this.startBlock,
+            blockCount: this.blockCount,
+            questionCount: this.questionCount,
+            maxCount: this.maxCount,
+            maxValue: this.maxValue,
+            maxVoteOverwrites: this.maxVoteOverwrites,
+            maxTotalCost: this.maxTotalCost,
+            costExponent: this.costExponent,
+            namespace: this.namespace,
+            evmBlockHeight: this.evmBlockHeight
+        }
+        if (isDefined(this.processId)) result.processId = this.processId
+        if (isDefined(this.entityAddress)) result.entityAddress = this.entityAddress
+        if (isDefined(this.status)) result.status = this.status.value
+        if (isDefined(this.questionIndex)) result.questionIndex = this.questionIndex
+        if (isDefined(this.paramsSignature)) result.paramsSignature = this.paramsSignature
+        if (isDefined(this.results)) result.results = this.results.toJSON()
+
+        return result
+    }
+
+    /** Parses the output of `toJSON()`, either as an object or as a JSON string */
+    static fromJSON(json: IProcessContractParametersJson | string): ProcessContractParameters {
+        if (typeof json == "string") {
+            try {
+                json = JSON.parse(json) as IProcessContractParametersJson
+            }
+            catch (err) {
+                throw new Error("Invalid JSON")
+            }
+        }
+        if (!json || typeof json != "object") throw new Error("Invalid JSON")
+        else if (json.version !== PROCESS_PARAMS_JSON_VERSION) throw new Error("Unsupported version")
+
+        const numberFields = ["startBlock", "blockCount", "questionCount", "maxCount", "maxValue", "maxVoteOverwrites", "maxTotalCost", "costExponent", "namespace", "evmBlockHeight"]
+        for (let field of numberFields) {
+            if (typeof json[field] != "number") throw new Error("Invalid " + field)
+        }
+        for (let field of ["metadata", "censusRoot", "censusUri"]) {
+            if (typeof json[field] != "string") throw new Error("Invalid " + field)
+        }
+        for (let field of ["processId", "entityAddress", "paramsSignature"]) {
+            if (isDefined(json[field]) && typeof json[field] != "string") throw new Error("Invalid " + field)
+        }
+        if (isDefined(json.questionIndex) && typeof json.questionIndex != "number") throw new Error("Invalid questionIndex")
+
+        const result = new ProcessContractParameters()
+        result.mode = ProcessMode.fromJSON(json.mode)
+        result.envelopeType = ProcessEnvelopeType.fromJSON(json.envelopeType)
+        result.censusOrigin = new ProcessCensusOrigin(json.censusOrigin)
+
+        for (let field of numberFields.concat(["metadata", "censusRoot", "censusUri"])) {
+            result[field] = json[field]
+        }
+        if (isDefined(json.processId)) result.processId = json.processId
+        if (isDefined(json.entityAddress)) result.entityAddress = json.entityAddress
+        if (isDefined(json.status)) result.status = new ProcessStatus(json.status)
+        if (isDefined(json.questionIndex)) result.questionIndex = json.questionIndex
+        if (isDefined(json.paramsSignature)) result.paramsSignature = json.paramsSignature
+        if (isDefined(json.results)) {
+            if (typeof json.results != "object") throw new Error("Invalid results")
+            result.results = new ProcessResults(json.results.tally, json.results.height)
+        }
+
+        return result
+    }
+}
+
+function isDefined(value: unknown): boolean {
+    return value !== undefined && value !== null
+}
+
+// CONTENT HASHED URI
+
+/**
+ * Wraps the value of `metadata` and `censusUri`: one or more comma separated URI's pointing to the same content,
+ * optionally followed by `!` and the hash of the content. Hashes generated by this class are keccak256 (hex, without `0x`).
+ *
+ * Example: `ipfs://1234,https://server/uri!0987654321`
+ */
+export class ContentHashedUri {
+    private _uris: string[]
+    private _hash: string
+
+    /** Parses the given string. Fails if any of the URI's or the hash are not valid. */
+    constructor(value: string) {
+        if (typeof value != "string") throw new Error("Invalid content hashed URI")
+
+        const [uris, hash, ...rest] = value.trim().split("!")
+        if (rest.length) throw new Error("Invalid content hashed URI")
+        else if (hash !== undefined && !contentHashPattern.test(hash.trim())) throw new Error("Invalid content hash")
+
+        this._uris = []
+        for (let uri of uris.split(",").map(item => item.trim())) {
+            if (!uriPattern.test(uri)) throw new Error("Invalid URI")
+            else if (!this._uris.includes(uri)) this._uris.push(uri)
+        }
+        if (hash === undefined) this._hash = null
+        else if (hexHashPattern.test(hash.trim())) this._hash = hash.trim().replace(/^0x/i, "").toLowerCase()
+        else this._hash = hash.trim()
+    }
+
+    /** Returns true if the given string is a valid content hashed URI */
+    static isValid(value: string): boolean {
+        try {
+            new ContentHashedUri(value)
+            return true
+        }
+        catch (err) {
+            return false
+        }
+    }
+
+    /**
+     * Builds a content hashed URI from the given locations
+     * @param uris One or more URI's where the content is available
+     * @param content (optional) The content to hash
+     */
+    static build(uris: string | string[], content?: string | Uint8Array): ContentHashedUri {
+        const list = typeof uris == "string" ? [uris] : uris
+        if (!Array.isArray(list) || !list.length) throw new Error("Invalid URI")
+
+        const hash = content === undefined ? "" : "!" + ContentHashedUri.hashContent(content)
+        return new ContentHashedUri(list.join(",") + hash)
+    }
+
+    /** Computes the hash of the given content, as expected after `!` */
+    static hashContent(content: string | Uint8Array): string {
+        const bytes = typeof content == "string" ? utils.toUtf8Bytes(content) : content
+        return utils.keccak256(bytes).substr(2)
+    }
+
+    /** The locations of the content, without duplicates and in the same order */
+    get uris(): string[] { return this._uris.slice() }
+    /** The hash of the content or `null`. Hex hashes are lowercase and without `0x`. */
+    get hash(): string { return this._hash }
+    get hasHash(): boolean { return this._hash !== null }
+
+    /** Returns the URI's using the given scheme (`ipfs`, `https`, ...) */
+    getUris(scheme: string): string[] {
+        const prefix = scheme.toLowerCase().replace(/:(\/\/)?$/, "") + "://"
+        return this._uris.filter(uri => uri.toLowerCase().startsWith(prefix))
+    }
+
+    /** Returns true if the keccak256 hash of the given content matches the hash. Fails if there is no hash to check against. */
+    verify(content: string | Uint8Array): boolean {
+        if (!this.hasHash) throw new Error("No content hash")
+        return ContentHashedUri.hashContent(content) == this._hash
+    }
+
+    /** Returns the normalized value: trimmed URI's without duplicates, followed by the hash */
+    toString(): string {
+        return this._uris.join(",") + (this.hasHash ? "!" + this._hash : "")
+    }
+}
+
+const uriPattern = /^[a-zA-Z][a-zA-Z0-9+.-]*:\/\/[^\s,!]+$/
+const contentHashPattern = /^[^\s,!]+$/
+const hexHashPattern = /^(0x)?[0-9a-fA-F]+$/
+
+// PROCESS ID
+
+/**
+ * Computes the ID of a process off-chain, exactly like `Processes.getProcessId()`.
+ * @param entityAddress The address of the entity. On EVM census processes, the address of the token contract.
+ * @param processCountIndex The index of the process within the history of the entity, including predecessor instances
+ * @param namespace The namespace of the process
+ * @param chainId The chain ID that the Processes instance was deployed with
+ */
+export function computeProcessId(entityAddress: string, processCountIndex: number | BigNumber, namespace: number, chainId: number | BigNumber): string {
+    if (!utils.isAddress(entityAddress)) throw new Error("Invalid entityAddress")
+    else if (BigNumber.from(processCountIndex).lt(0)) throw new Error("Invalid processCountIndex")
+    else if (typeof namespace != "number" || !Number.isInteger(namespace) || namespace < 0 || namespace > 65535) throw new Error("Invalid namespace")
+    else if (BigNumber.from(chainId).lt(0) || BigNumber.from(chainId).gt("0xffffffffffffffff")) throw new Error("Invalid chainId")
+
+    return utils.solidityKeccak256(
+        ["address", "uint256", "uint16", "uint64"],
+        [entityAddress, processCountIndex, namespace, chainId]
+    )
+}
+
+/**
+ * Computes the ID that the next process of an entity will get, like `Processes.getNextProcessId()` does.
+ * @param processCount The amount of processes that the entity has created so far (see `getEntityProcessCount()`)
+ */
+export function computeNextProcessId(entityAddress: string, processCount: number | BigNumber, namespace: number, chainId: number | BigNumber): string {
+    return computeProcessId(entityAddress, processCount, namespace, chainId)
+}
+
+// PROCESS COST
+
+/** The `costExponent` value that represents an exponent of 1.0 */
+export const COST_EXPONENT_UNIT = 10000
+
+/** Converts the fixed-point `costExponent` of a process into a decimal number (`20000` => `2.0`) */
+export function costExponentToNumber(costExponent: number): number {
+    if (!Number.isInteger(costExponent) || costExponent < 0 || costExponent > 65535) throw new Error("Invalid costExponent")
+
+    return costExponent / COST_EXPONENT_UNIT
+}
+
+/** Converts a decimal exponent into the fixed-point `costExponent` of a process (`2.0` => `20000`). Up to 4 decimals are kept. */
+export function numberToCostExponent(exponent: number): number {
+    if (typeof exponent != "number" || !Number.isFinite(exponent) || exponent < 0 || exponent > 6.5535) throw new Error("Invalid exponent")
+
+    return Math.round(exponent * COST_EXPONENT_UNIT)
+}
+
+/** Returns the cost of the given values: `Σ value ^ (costExponent / 10000)` */
+export function computeBallotCost(values: number[], costExponent: number): number {
+    if (!Array.isArray(values)) throw new Error("Invalid values")
+
+    const exponent = costExponentToNumber(costExponent)
+    return values.reduce((acc, value) => acc + Math.pow(value, exponent), 0)
+}
+
+/** Returns true if the cost of the given values does not exceed `maxTotalCost`. A `maxTotalCost` of zero means no limit. */
+export function isBallotAffordable(values: number[], maxTotalCost: number, costExponent: number): boolean {
+    if (maxTotalCost == 0) return true
+    return computeBallotCost(values, costExponent) <= maxTotalCost
+}
+
+/**
+ * Returns the highest value that each choice could take, while the rest of choices keep the values of `allocation`.
+ * Useful to bound the inputs of a ballot as the voter spends its credits. `-1` means that no value is affordable.
+ * @param params The limits of the process
+ * @param allocation The values currently allocated to each choice. Zero by default.
+ */
+export function getMaxAllocation(params: IProcessCostParams, allocation?: number[]): number[] {
+    if (!params) throw new Error("Invalid parameters")
+    else if (allocation && (!Array.isArray(allocation) || allocation.length > params.maxCount)) throw new Error("Invalid allocation")
+
+    const values = Array.from({ length: params.maxCount }, (_, idx) => (allocation && allocation[idx]) || 0)
+    if (params.maxTotalCost == 0) return values.map(() => params.maxValue)
+
+    const exponent = costExponentToNumber(params.costExponent)
+    const totalCost = computeBallotCost(values, params.costExponent)
+
+    return values.map(value => {
+        const available = params.maxTotalCost - (totalCost - Math.pow(value, exponent))
+        for (let candidate = params.maxValue; candidate >= 0; candidate--) {
+            if (Math.pow(candidate, exponent) <= available) return candidate
+        }
+        return -1
+    })
+}
+
+/** The limits of a process that determine the cost of a ballot */
+export type IProcessCostParams = {
+    maxCount: number,
+    maxValue: number,
+    maxTotalCost: number,
+    costExponent: number
+}
+
+/**
+ * - `single-choice`: One value, the index of the chosen option
+ * - `approval`: The indexes of the approved options, each one once
+ *
+ * The tally counts how many times each value is chosen, so only ballots whose values are option indexes are available as presets.
+ */
+export type IBallotPresetType = "single-choice" | "approval"
+
+export type IBallotPreset = IProcessCostParams & { envelopeType: IProcessEnvelopeType }
+
+/**
+ * Returns a consistent combination of `maxCount`, `maxValue`, `maxTotalCost`, `costExponent` and `envelopeType` for a question with the given amount of options.
+ * Other envelope type flags can be combined with the returned `envelopeType`.
+ * @param type The kind of ballot
+ * @param options `optionCount`: The amount of options of the question
+ */
+export function makeBallotPreset(type: IBallotPresetType, options: { optionCount: number }): IBallotPreset {
+    if (!options || !Number.isInteger(options.optionCount) || options.optionCount < 2) throw new Error("Invalid optionCount")
+
+    const { optionCount } = options
+
+    switch (type) {
+        case "single-choice":
+            if (optionCount > 256) throw new Error("Invalid optionCount")
+            return { maxCount: 1, maxValue: optionCount - 1, maxTotalCost: 0, costExponent: COST_EXPONENT_UNIT, envelopeType: ProcessEnvelopeType.make() }
+        case "approval":
+            if (optionCount > 100) throw new Error("Invalid optionCount")
+            return { maxCount: optionCount, maxValue: optionCount - 1, maxTotalCost: 0, costExponent: COST_EXPONENT_UNIT, envelopeType: ProcessEnvelopeType.make({ uniqueValues: true }) }
+        default:
+            throw new Error("Invalid preset type")
+    }
 }
 
 ///////////////////////////////////////////////////////////////////////////////
@@ -697,3 +1308,106 @@ export interface TokenStorageProofTestContractMethods {
     testExclusion(): Promise<string>
     verifyAccountProof(proof: Buffer, hash: string, account: string): Promise<string>
 }
+
+///////////////////////////////////////////////////////////////////////////////
+// PROCESS CLIENT AND INSTANCE RESOLVER
+///////////////////////////////////////////////////////////////////////////////
+
+export * from "./process-client"
+export * from "./process-resolver"
+
+///////////////////////////////////////////////////////////////////////////////
+// PROCESS EVENTS
+///////////////////////////////////////////////////////////////////////////////
+
+export * from "./process-events"
+
+///////////////////////////////////////////////////////////////////////////////
+// PROCESS INDEXER
+///////////////////////////////////////////////////////////////////////////////
+
+export * from "./process-indexer"
+
+///////////////////////////////////////////////////////////////////////////////
+// PROCESS PARAMS SIGNATURE
+///////////////////////////////////////////////////////////////////////////////
+
+export * from "./process-signature"
+
+///////////////////////////////////////////////////////////////////////////////
+// PROCESS PARAMS VALIDATION
+///////////////////////////////////////////////////////////////////////////////
+
+export * from "./process-validation"
+
+///////////////////////////////////////////////////////////////////////////////
+// CONTRACT ERRORS
+///////////////////////////////////////////////////////////////////////////////
+
+export * from "./errors"
+
+///////////////////////////////////////////////////////////////////////////////
+// VOTE PACKAGE
+///////////////////////////////////////////////////////////////////////////////
+
+export * from "./vote-package"
+
+///////////////////////////////////////////////////////////////////////////////
+// PROCESS PRESETS
+///////////////////////////////////////////////////////////////////////////////
+
+export * from "./process-presets"
+
+///////////////////////////////////////////////////////////////////////////////
+// CENSUS TREE
+///////////////////////////////////////////////////////////////////////////////
+
+export * from "./census-tree"
+
+///////////////////////////////////////////////////////////////////////////////
+// CENSUS CA
+///////////////////////////////////////////////////////////////////////////////
+
+export * from "./census-ca"
+
+///////////////////////////////////////////////////////////////////////////////
+// CENSUS UPDATER
+///////////////////////////////////////////////////////////////////////////////
+
+export * from "./census-updater"
+
+///////////////////////////////////////////////////////////////////////////////
+// PROCESS METADATA
+///////////////////////////////////////////////////////////////////////////////
+
+export * from "./process-metadata"
+
+///////////////////////////////////////////////////////////////////////////////
+// ENCRYPTED METADATA
+///////////////////////////////////////////////////////////////////////////////
+
+export * from "./encrypted-metadata"
+
+///////////////////////////////////////////////////////////////////////////////
+// VOTE ENCRYPTION
+///////////////////////////////////////////////////////////////////////////////
+
+export * from "./vote-encryption"
+
+///////////////////////////////////////////////////////////////////////////////
+// TALLY
+///////////////////////////////////////////////////////////////////////////////
+
+export * from "./tally"
+
+///////////////////////////////////////////////////////////////////////////////
+// SERIAL PROCESS CONTROLLER
+///////////////////////////////////////////////////////////////////////////////
+
+export * from "./serial-controller"
+
+///////////////////////////////////////////////////////////////////////////////
+// PROCESS SCHEDULE
+///////////////////////////////////////////////////////////////////////////////
+
+export * from "./process-schedule"
@@ -0,0 +1,113 @@
+import { Contract, Signer, providers } from "ethers"
+import { ProcessInstanceResolver } from "./process-resolver"
+import { IMethodOverrides, IProcessCreateParams, IProcessStatus, ProcessContractMethods, ProcessContractParameters, ProcessResults, ProcessStatus } from "./index"
+
+/**
+ * High level wrapper around a Processes contract instance.
+ * Converts the typed parameters into the contract tuples and parses the responses back.
+ * New processes are created on the active instance and every other operation is sent to the instance where the process was created.
+ */
+export class ProcessClient {
+    /** The contract instance that the client was attached to */
+    readonly instance: Contract & ProcessContractMethods
+    /** Locates the instance that holds each process within the chain of predecessors and successors */
+    readonly resolver: ProcessInstanceResolver
+
+    /**
+     * @param contractAddress The address of the Processes contract instance to attach to. Any instance within the chain is valid.
+     * @param signerOrProvider A signer is required to send transactions. A provider is enough for read-only operations.
+     */
+    constructor(contractAddress: string, signerOrProvider: Signer | providers.Provider) {
+        if (!contractAddress) throw new Error("Invalid contract address")
+        else if (!signerOrProvider) throw new Error("Invalid signer or provider")
+
+        this.resolver = new ProcessInstanceResolver(contractAddress, signerOrProvider)
+        this.instance = this.resolver.attach(contractAddress)
+    }
+
+    get address(): string { return this.instance.address }
+
+    // GETTERS
+
+    /** Fetches the on-chain parameters of the given process, including its `paramsSignature` */
+    async getProcess(processId: string): Promise<ProcessContractParameters> {
+        const instance = await this.resolver.getProcessInstance(processId)
+        const [state, paramsSignature] = await Promise.all([
+            instance.get(processId),
+            instance.getParamsSignature(processId)
+        ])
+
+        const result = ProcessContractParameters.fromContract(state)
+        result.processId = processId
+        result.paramsSignature = paramsSignature
+        return result
+    }
+
+    /** Fetches the results of the given process. Resolves with `null` if they are not available yet. */
+    async getResults(processId: string): Promise<ProcessResults> {
+        const instance = await this.resolver.getProcessInstance(processId)
+        const { tally, height } = await instance.getResults(processId)
+        if (!height) return null
+
+        return new ProcessResults(tally, height)
+    }
+
+    // SETTERS
+
+    /** Publishes a new process with the given parameters and resolves with its process ID once the transaction is mined */
+    async create(params: IProcessCreateParams, overrides?: IMethodOverrides): Promise<string> {
+        const contractParams = ProcessContractParameters.fromParams(params).toContractParams(overrides)
+
+        const instance = await this.resolver.getActiveInstance()
+        const tx = await instance.newProcess(...contractParams)
+        const receipt = await tx.wait()
+
+        const event = (receipt.events || []).find(item => item.event == "NewProcess")
+        if (!event || !event.args) throw new Error("The transaction did not emit a NewProcess event")
+
+        return event.args.processId
+    }
+
+    /** Updates the status of the given process and resolves with its updated parameters */
+    async setStatus(processId: string, status: ProcessStatus | IProcessStatus, overrides?: IMethodOverrides): Promise<ProcessContractParameters> {
+        const newStatus = typeof status == "number" ? new ProcessStatus(status) : status // Fail on error
+
+        const instance = await this.resolver.getProcessInstance(processId)
+        const tx = await instance.setStatus(processId, newStatus.value, overrides || {})
+        await tx.wait()
+
+        return this.getProcess(processId)
+    }
+
+    /** Moves the given serial process to the next question and resolves with its updated parameters */
+    async incrementQuestionIndex(processId: string, overrides?: IMethodOverrides): Promise<ProcessContractParameters> {
+        const instance = await this.resolver.getProcessInstance(processId)
+        const tx = await instance.incrementQuestionIndex(processId, overrides || {})
+        await tx.wait()
+
+        return this.getProcess(processId)
+    }
+
+    /** Updates the census of the given process and resolves with its updated parameters */
+    async setCensus(processId: string, censusRoot: string, censusUri: string, overrides?: IMethodOverrides): Promise<ProcessContractParameters> {
+        if (!censusRoot) throw new Error("Invalid censusRoot")
+        else if (!censusUri) throw new Error("Invalid censusUri")
+
+        const instance = await this.resolver.getProcessInstance(processId)
+        const tx = await instance.setCensus(processId, censusRoot, censusUri, overrides || {})
+        await tx.wait()
+
+        return this.getProcess(processId)
+    }
+
+    /** Publishes the results of the given process (oracles only) and resolves with the stored results */
+    async setResults(processId: string, results: ProcessResults, overrides?: IMethodOverrides): Promise<ProcessResults> {
+        if (!results) throw new Error("Invalid results")
+
+        const instance = await this.resolver.getProcessInstance(processId)
+        const tx = await instance.setResults(processId, results.tally, results.height, overrides || {})
+        await tx.wait()
+
+        return this.getResults(processId)
+    }
+}
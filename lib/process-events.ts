@@ -0,0 +1,181 @@
+import * as Process from "./processes.json"
+import { BigNumber, Contract, providers, utils } from "ethers"
+import { IProcessStatus, ProcessContractMethods, ProcessStatus } from "./index"
+
+const processInterface = new utils.Interface(Process.abi)
+
+export type IProcessEventName = "NewProcess" | "StatusUpdated" | "QuestionIndexUpdated" | "CensusUpdated" | "ResultsAvailable" | "Activated" | "ActivatedSuccessor"
+
+/** Fields that every decoded event carries about the log that emitted it */
+type IProcessEventLog = {
+    /** The address of the Processes instance that emitted the event */
+    address: string,
+    blockNumber: number,
+    transactionHash: string,
+    logIndex: number
+}
+
+export type INewProcessEvent = IProcessEventLog & { name: "NewProcess", processId: string, namespace: number }
+export type IStatusUpdatedEvent = IProcessEventLog & { name: "StatusUpdated", processId: string, namespace: number, status: ProcessStatus }
+export type IQuestionIndexUpdatedEvent = IProcessEventLog & { name: "QuestionIndexUpdated", processId: string, namespace: number, newIndex: number }
+export type ICensusUpdatedEvent = IProcessEventLog & { name: "CensusUpdated", processId: string, namespace: number }
+export type IResultsAvailableEvent = IProcessEventLog & { name: "ResultsAvailable", processId: string }
+/** The instance became active at `activationBlock` */
+export type IActivatedEvent = IProcessEventLog & { name: "Activated", activationBlock: number }
+/** The instance activated `successor` at `activationBlock` and became inactive */
+export type IActivatedSuccessorEvent = IProcessEventLog & { name: "ActivatedSuccessor", activationBlock: number, successor: string }
+
+export type IProcessEvent = INewProcessEvent | IStatusUpdatedEvent | IQuestionIndexUpdatedEvent | ICensusUpdatedEvent |
+    IResultsAvailableEvent | IActivatedEvent | IActivatedSuccessorEvent
+
+/** Criteria to select the events delivered to a subscriber. Empty fields match any value. */
+export type IProcessEventFilter = {
+    /** Only events of processes belonging to the given namespace */
+    namespace?: number,
+    /** Only events of the given process */
+    processId?: string,
+    /** Only the given event types */
+    events?: IProcessEventName[],
+    /** Deliver the events since the given block (included) first. By default, the latest block when subscribing. */
+    fromBlock?: number
+}
+
+/** Cancels a subscription. `ready` resolves once the events since `fromBlock` are delivered and new events are being listened to. */
+export type IProcessEventUnsubscribe = (() => void) & { ready: Promise<void> }
+
+/**
+ * Decodes a raw log emitted by a Processes instance into a typed event.
+ * Returns `null` when the log does not correspond to any of the process events.
+ */
+export function decodeProcessEvent(log: providers.Log): IProcessEvent {
+    let parsed: utils.LogDescription
+    try {
+        parsed = processInterface.parseLog(log)
+    }
+    catch (err) {
+        return null
+    }
+
+    const meta: IProcessEventLog = {
+        address: log.address,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        logIndex: log.logIndex
+    }
+    const args = parsed.args
+
+    switch (parsed.name) {
+        case "NewProcess":
+            return { ...meta, name: "NewProcess", processId: args.processId, namespace: args.namespace }
+        case "StatusUpdated":
+            return { ...meta, name: "StatusUpdated", processId: args.processId, namespace: args.namespace, status: new ProcessStatus(args.status as IProcessStatus) }
+        case "QuestionIndexUpdated":
+            return { ...meta, name: "QuestionIndexUpdated", processId: args.processId, namespace: args.namespace, newIndex: args.newIndex }
+        case "CensusUpdated":
+            return { ...meta, name: "CensusUpdated", processId: args.processId, namespace: args.namespace }
+        case "ResultsAvailable":
+            return { ...meta, name: "ResultsAvailable", processId: args.processId }
+        case "Activated":
+            return { ...meta, name: "Activated", activationBlock: (args.blockNumber as BigNumber).toNumber() }
+        case "ActivatedSuccessor":
+            return { ...meta, name: "ActivatedSuccessor", activationBlock: (args.blockNumber as BigNumber).toNumber(), successor: args.successor }
+        default:
+            return null
+    }
+}
+
+/** Decodes the given logs, skipping the ones that do not correspond to any of the process events */
+export function decodeProcessEvents(logs: providers.Log[]): IProcessEvent[] {
+    return (logs || []).map(log => decodeProcessEvent(log)).filter(event => !!event)
+}
+
+/**
+ * Calls `callback` with every new process event emitted by the given instance that matches `filter`.
+ * `ResultsAvailable` carries no namespace, so the namespace of its process is fetched from the contract when needed.
+ * `Activated` and `ActivatedSuccessor` concern the whole instance and they are only skipped by the `events` criteria.
+ *
+ * The provider only polls the events of new blocks, so the events since `fromBlock` (the current block by default) are fetched first.
+ * Returns a function that cancels the subscription.
+ */
+export function subscribeProcessEvents(instance: Contract & ProcessContractMethods, filter: IProcessEventFilter, callback: (event: IProcessEvent) => void): IProcessEventUnsubscribe {
+    if (!instance || !instance.provider) throw new Error("Invalid contract instance")
+    else if (typeof callback != "function") throw new Error("Invalid callback")
+
+    filter = filter || {}
+    const processId = filter.processId && filter.processId.toLowerCase()
+    const namespaces: { [processId: string]: number } = {}
+
+    const getNamespace = (event: IProcessEvent): Promise<number> => {
+        if ("namespace" in event) return Promise.resolve(event.namespace)
+
+        const key = (event as IResultsAvailableEvent).processId.toLowerCase()
+        if (typeof namespaces[key] == "number") return Promise.resolve(namespaces[key])
+
+        return instance.get(key).then(state => {
+            namespaces[key] = state[6][2]
+            return namespaces[key]
+        })
+    }
+
+    const matches = async (event: IProcessEvent): Promise<boolean> => {
+        if (filter.events && !filter.events.includes(event.name)) return false
+        else if (!("processId" in event)) return true
+        else if (processId && event.processId.toLowerCase() != processId) return false
+        else if (typeof filter.namespace != "number") return true
+
+        return (await getNamespace(event)) == filter.namespace
+    }
+
+    // Subscriptions sharing the same log filter make the provider deliver each log once per subscription
+    const delivered: { [key: string]: number } = {}
+    const isDuplicate = (log: providers.Log): boolean => {
+        const key = log.transactionHash + ":" + log.logIndex
+        if (key in delivered) return true
+
+        delivered[key] = log.blockNumber
+        for (let item in delivered) {
+            if (delivered[item] < log.blockNumber - 10) delete delivered[item]
+        }
+        return false
+    }
+
+    let active = true
+    const deliver = (log: providers.Log) => {
+        if (!active || isDuplicate(log)) return
+
+        const event = decodeProcessEvent(log)
+        if (!event) return
+
+        matches(event).then(match => {
+            if (match && active) callback(event)
+        }).catch(() => { /* the process cannot be read, skip it */ })
+    }
+
+    // New logs are held until the past ones are delivered, so that events keep their order
+    let pending: providers.Log[] = []
+    const logFilter: providers.Filter = { address: instance.address }
+    const listener = (log: providers.Log) => {
+        if (pending) pending.push(log)
+        else deliver(log)
+    }
+    instance.provider.on(logFilter, listener)
+
+    const fromBlock = typeof filter.fromBlock == "number" ? Promise.resolve(filter.fromBlock) : instance.provider.getBlockNumber()
+    const ready = fromBlock
+        .then(block => instance.provider.getLogs({ ...logFilter, fromBlock: block, toBlock: "latest" }))
+        .then(logs => {
+            logs.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex).forEach(deliver)
+        })
+        .catch(() => { /* the past logs cannot be fetched, deliver the new ones only */ })
+        .then(() => {
+            const logs = pending
+            pending = null
+            logs.forEach(deliver)
+        })
+
+    const unsubscribe = () => {
+        active = false
+        instance.provider.off(logFilter, listener)
+    }
+    return Object.assign(unsubscribe, { ready })
+}
@@ -0,0 +1,222 @@
+import { Contract } from "ethers"
+import { ProcessContractMethods, ProcessContractParameters, ProcessResults, ProcessStatus } from "./index"
+import { ProcessInstanceResolver } from "./process-resolver"
+import { decodeProcessEvents, IProcessEvent } from "./process-events"
+
+/** The indexed state of a process */
+export type IIndexedProcess = {
+    processId: string,
+    /** The address of the instance where the process was created */
+    instanceAddress: string,
+    /** `params.results` is set once the status is `RESULTS` */
+    params: ProcessContractParameters,
+    /** The block of the last event applied to the process */
+    lastBlock: number
+}
+
+export type IProcessIndexQuery = {
+    entityAddress?: string,
+    namespace?: number,
+    /** Only processes with any of the given status values */
+    status?: number[]
+}
+
+/** Storage backend used by `ProcessIndexer`. Implement it to keep the index on a database or any other persistent medium. */
+export interface IProcessIndexStore {
+    /** The last block that has been completely indexed. `null` if none. */
+    getCheckpoint(): Promise<number>
+    setCheckpoint(blockNumber: number): Promise<void>
+
+    get(processId: string): Promise<IIndexedProcess>
+    put(entry: IIndexedProcess): Promise<void>
+    /** Returns the processes matching all the given criteria, in their order of creation */
+    find(query: IProcessIndexQuery): Promise<IIndexedProcess[]>
+}
+
+/** Keeps the process index in memory */
+export class MemoryProcessIndexStore implements IProcessIndexStore {
+    private checkpoint: number = null
+    private processIds: string[] = []
+    private entries: { [processId: string]: IIndexedProcess } = {}
+
+    getCheckpoint(): Promise<number> {
+        return Promise.resolve(this.checkpoint)
+    }
+    setCheckpoint(blockNumber: number): Promise<void> {
+        this.checkpoint = blockNumber
+        return Promise.resolve()
+    }
+    get(processId: string): Promise<IIndexedProcess> {
+        return Promise.resolve(this.entries[processId.toLowerCase()] || null)
+    }
+    put(entry: IIndexedProcess): Promise<void> {
+        const key = entry.processId.toLowerCase()
+        if (!this.entries[key]) this.processIds.push(key)
+
+        this.entries[key] = entry
+        return Promise.resolve()
+    }
+    find(query: IProcessIndexQuery): Promise<IIndexedProcess[]> {
+        query = query || {}
+        const entityAddress = query.entityAddress && query.entityAddress.toLowerCase()
+
+        const result = this.processIds.map(processId => this.entries[processId]).filter(entry => {
+            if (entityAddress && entry.params.entityAddress.toLowerCase() != entityAddress) return false
+            else if (typeof query.namespace == "number" && entry.params.namespace != query.namespace) return false
+            else if (query.status && !query.status.includes(entry.params.status.value)) return false
+            return true
+        })
+        return Promise.resolve(result)
+    }
+}
+
+/**
+ * Fetches the process events emitted by the given instances from `fromBlock` to `toBlock` (both included),
+ * with a `getLogs` call per instance and range of `blockRange` blocks, so that long scans are not rejected by the provider.
+ * `callback` receives the events of each range, sorted by block and log index, along with the last block of the range.
+ */
+export async function scanProcessEvents(instances: Contract[], range: { fromBlock: number, toBlock: number, blockRange: number, topics?: (string | string[])[] },
+    callback: (events: IProcessEvent[], rangeEnd: number) => Promise<void>): Promise<void> {
+    if (!instances || !instances.length) throw new Error("Invalid instances")
+    else if (!(range.blockRange >= 1)) throw new Error("Invalid block range")
+
+    const provider = instances[0].provider
+    let fromBlock = range.fromBlock
+
+    while (fromBlock <= range.toBlock) {
+        const rangeEnd = Math.min(fromBlock + range.blockRange - 1, range.toBlock)
+
+        const logs = await Promise.all(instances.map(instance => provider.getLogs({ address: instance.address, topics: range.topics, fromBlock, toBlock: rangeEnd })))
+        const events = decodeProcessEvents([].concat(...logs)).sort((a, b) => {
+            if (a.blockNumber != b.blockNumber) return a.blockNumber - b.blockNumber
+            return a.logIndex - b.logIndex
+        })
+
+        await callback(events, rangeEnd)
+        fromBlock = rangeEnd + 1
+    }
+}
+
+/**
+ * Rebuilds the state of the processes of every instance in the chain from their events,
+ * so that the processes of an entity or a namespace can be listed without querying each one of them.
+ */
+export class ProcessIndexer {
+    readonly resolver: ProcessInstanceResolver
+    readonly store: IProcessIndexStore
+    /** The maximum amount of blocks requested on a single `getLogs` call */
+    blockRange: number = 10000
+
+    /**
+     * @param resolver The resolver of the chain of instances to index
+     * @param store Where the indexed processes are kept. In memory by default.
+     */
+    constructor(resolver: ProcessInstanceResolver, store: IProcessIndexStore = new MemoryProcessIndexStore()) {
+        if (!resolver) throw new Error("Invalid resolver")
+        else if (!store) throw new Error("Invalid store")
+
+        this.resolver = resolver
+        this.store = store
+    }
+
+    /**
+     * Applies the process events emitted up to `toBlock` (the latest block by default).
+     * The scan resumes after the last checkpoint of the store, or starts at `fromBlock` if the store is empty.
+     * A checkpoint is stored after every range of `blockRange` blocks, so an interrupted sync can be resumed.
+     */
+    async sync(toBlock?: number, fromBlock: number = 0): Promise<void> {
+        const instances = await this.resolver.getInstances()
+        const provider = instances[0].provider
+
+        if (typeof toBlock != "number") toBlock = await provider.getBlockNumber()
+
+        const checkpoint = await this.store.getCheckpoint()
+        if (typeof checkpoint == "number") fromBlock = checkpoint + 1
+
+        await scanProcessEvents(instances, { fromBlock, toBlock, blockRange: this.blockRange }, async (events, rangeEnd) => {
+            for (let event of events) {
+                await this.apply(event)
+            }
+            await this.store.setCheckpoint(rangeEnd)
+        })
+    }
+
+    // QUERIES
+
+    /** Returns the indexed state of the given process, or `null` if unknown */
+    getProcess(processId: string): Promise<IIndexedProcess> {
+        return this.store.get(processId)
+    }
+
+    /** Returns all the processes created by the given entity (or token address) */
+    getEntityProcesses(entityAddress: string): Promise<IIndexedProcess[]> {
+        return this.store.find({ entityAddress })
+    }
+
+    /** Returns all the processes belonging to the given namespace */
+    getNamespaceProcesses(namespace: number): Promise<IIndexedProcess[]> {
+        return this.store.find({ namespace })
+    }
+
+    /** Returns the processes of the given namespace whose status is `READY` */
+    getActiveProcesses(namespace: number): Promise<IIndexedProcess[]> {
+        return this.store.find({ namespace, status: [ProcessStatus.READY] })
+    }
+
+    // INTERNAL
+
+    private async apply(event: IProcessEvent) {
+        if (!("processId" in event)) return // Activation events do not affect the processes
+
+        const instance = this.resolver.attach(event.address)
+        let entry = await this.store.get(event.processId)
+
+        if (!entry || event.name == "NewProcess") {
+            // Unknown processes are loaded with their state at the time of the event
+            entry = await this.load(instance, event.processId, event.blockNumber)
+        }
+        else {
+            switch (event.name) {
+                case "StatusUpdated":
+                    entry.params.status = event.status
+                    break
+                case "QuestionIndexUpdated":
+                    entry.params.questionIndex = event.newIndex
+                    break
+                case "CensusUpdated": {
+                    const state = await instance.get(event.processId, { blockTag: event.blockNumber })
+                    entry.params.censusRoot = state[2][1]
+                    entry.params.censusUri = state[2][2]
+                    break
+                }
+                case "ResultsAvailable":
+                    entry.params.status = new ProcessStatus(ProcessStatus.RESULTS)
+                    entry.params.results = await this.loadResults(instance, event.processId, event.blockNumber)
+                    break
+            }
+        }
+
+        entry.lastBlock = event.blockNumber
+        await this.store.put(entry)
+    }
+
+    private async load(instance: Contract & ProcessContractMethods, processId: string, blockNumber: number): Promise<IIndexedProcess> {
+        const [state, paramsSignature] = await Promise.all([
+            instance.get(processId, { blockTag: blockNumber }),
+            instance.getParamsSignature(processId, { blockTag: blockNumber })
+        ])
+        const params = ProcessContractParameters.fromContract(state)
+        params.processId = processId
+        params.paramsSignature = paramsSignature
+        if (params.status.hasResults) {
+            params.results = await this.loadResults(instance, processId, blockNumber)
+        }
+
+        return { processId, instanceAddress: instance.address, params, lastBlock: blockNumber }
+    }
+
+    private async loadResults(instance: Contract & ProcessContractMethods, processId: string, blockNumber: number): Promise<ProcessResults> {
+        const { tally, height } = await instance.getResults(processId, { blockTag: blockNumber })
+        return new ProcessResults(tally, height)
+    }
+}
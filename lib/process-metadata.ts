@@ -0,0 +1,244 @@
+import { ContentHashedUri, ProcessContractParameters } from "./index"
+
+/** Version of the schema described by `IProcessMetadata` */
+export const PROCESS_METADATA_VERSION = "1.0"
+
+/** Text in one or more languages. `default` is mandatory and it is used when the language of the voter is not available. */
+export type IMultiLanguage = { default: string, [lang: string]: string }
+
+export type IProcessMetadataChoice = {
+    title: IMultiLanguage,
+    /** The value that represents the choice within the vote package */
+    value: number
+}
+
+export type IProcessMetadataQuestion = {
+    title: IMultiLanguage,
+    description?: IMultiLanguage,
+    choices: IProcessMetadataChoice[]
+}
+
+/** The JSON document that `metadata` points to, describing the process and its questions */
+export type IProcessMetadata = {
+    version: string,
+    title: IMultiLanguage,
+    description: IMultiLanguage,
+    media?: { header?: string, streamUri?: string },
+    /** Custom fields defined by the entity */
+    meta?: { [key: string]: any },
+    questions: IProcessMetadataQuestion[]
+}
+
+/** Fetches the content available on the given URI */
+export type IContentFetcher = (uri: string) => Promise<string>
+
+export type IContentFetchOptions = {
+    /** Accept URI's without a content hash, returning the first content available. False by default. */
+    allowUnverified?: boolean
+}
+
+/**
+ * Returns the list of errors found on the given metadata. An empty list means that the document is valid.
+ * - `version`, `title` and `description` are required. Titles cannot be empty.
+ * - Every question needs a title and at least one choice
+ * - Choice values are integers from 0 to 255 and they cannot be repeated within a question
+ */
+export function validateProcessMetadata(metadata: IProcessMetadata): string[] {
+    if (!metadata || typeof metadata != "object") return ["Invalid metadata"]
+
+    const errors: string[] = []
+    if (metadata.version !== PROCESS_METADATA_VERSION) errors.push("Unsupported version")
+    if (!isMultiLanguage(metadata.title) || !metadata.title.default) errors.push("Invalid title")
+    if (!isMultiLanguage(metadata.description)) errors.push("Invalid description")
+    if (metadata.media !== undefined && (!metadata.media || typeof metadata.media != "object")) errors.push("Invalid media")
+    if (metadata.meta !== undefined && (!metadata.meta || typeof metadata.meta != "object")) errors.push("Invalid meta")
+
+    if (!Array.isArray(metadata.questions) || !metadata.questions.length) {
+        errors.push("No questions")
+        return errors
+    }
+
+    metadata.questions.forEach((question, idx) => {
+        if (!question || typeof question != "object") return errors.push(`Invalid question ${idx}`)
+        else if (!isMultiLanguage(question.title) || !question.title.default) errors.push(`Invalid title on question ${idx}`)
+        if (question.description !== undefined && !isMultiLanguage(question.description)) errors.push(`Invalid description on question ${idx}`)
+
+        if (!Array.isArray(question.choices) || !question.choices.length) return errors.push(`No choices on question ${idx}`)
+        else if (question.choices.some(choice => !choice || !isMultiLanguage(choice.title))) errors.push(`Invalid choice title on question ${idx}`)
+
+        const values = question.choices.map(choice => choice && choice.value)
+        if (values.some(value => typeof value != "number" || !Number.isInteger(value) || value < 0 || value > 255))
+            errors.push(`Invalid choice value on question ${idx}`)
+        else if (new Set(values).size != values.length)
+            errors.push(`Repeated choice values on question ${idx}`)
+    })
+
+    return errors
+}
+
+/**
+ * Returns the list of inconsistencies between the metadata and the parameters of the process:
+ * - The amount of questions needs to match `questionCount`
+ * - Choice values cannot exceed `maxValue`
+ * - With `uniqueValues`, every question needs at least `maxCount` choices
+ */
+export function checkProcessMetadata(metadata: IProcessMetadata, params: ProcessContractParameters): string[] {
+    if (!params) throw new Error("Invalid parameters")
+
+    const errors = validateProcessMetadata(metadata)
+    if (errors.length) return errors
+
+    if (metadata.questions.length != params.questionCount) errors.push("The amount of questions does not match questionCount")
+
+    metadata.questions.forEach((question, idx) => {
+        if (question.choices.some(choice => choice.value > params.maxValue))
+            errors.push(`The choice values of question ${idx} exceed maxValue`)
+        if (params.envelopeType.hasUniqueValues && question.choices.length < params.maxCount)
+            errors.push(`Question ${idx} has less choices than maxCount`)
+    })
+
+    return errors
+}
+
+/**
+ * Fetches the metadata of a process from the locations of the given content hashed URI, in order.
+ * Locations that fail or whose content does not match the hash are skipped.
+ * The document is validated and, when `params` are given, checked against them. The first error is thrown.
+ *
+ * @param metadataUri The `metadata` field of the process
+ * @param fetcher Resolves with the content of each URI
+ * @param params (optional) The parameters of the process to check the metadata against
+ * @param options (optional) Set `allowUnverified` to accept URI's without a content hash
+ */
+export async function loadProcessMetadata(metadataUri: string, fetcher: IContentFetcher, params?: ProcessContractParameters, options: IContentFetchOptions = {}): Promise<IProcessMetadata> {
+    const content = await fetchContentHashedUri(metadataUri, fetcher, options)
+    if (content === null) throw new Error("Could not fetch a valid copy of the metadata")
+
+    let metadata: IProcessMetadata
+    try {
+        metadata = JSON.parse(content)
+    }
+    catch (err) {
+        throw new Error("Invalid metadata")
+    }
+
+    const errors = params ? checkProcessMetadata(metadata, params) : validateProcessMetadata(metadata)
+    if (errors.length) throw new Error(errors[0])
+
+    return metadata
+}
+
+/**
+ * Fetches the content of a content hashed URI, trying its locations in order.
+ * Locations that fail or whose content does not match the hash are skipped. Resolves with `null` if none of them is valid.
+ * Fails if the URI has no hash, unless `allowUnverified` is set, or if the hash is not a keccak256 one.
+ */
+export async function fetchContentHashedUri(contentHashedUri: string, fetcher: IContentFetcher, options: IContentFetchOptions = {}): Promise<string> {
+    if (typeof fetcher != "function") throw new Error("Invalid fetcher")
+
+    const cUri = new ContentHashedUri(contentHashedUri)
+    if (!cUri.hasHash) {
+        if (!options || !options.allowUnverified) throw new Error("The URI has no content hash")
+    }
+    else if (!keccakHashPattern.test(cUri.hash)) throw new Error("Unsupported content hash")
+
+    for (let uri of cUri.uris) {
+        try {
+            const result = await fetcher(uri)
+            if (typeof result != "string") continue
+            else if (cUri.hasHash && !cUri.verify(result)) continue
+
+            return result
+        }
+        catch (err) {
+            continue
+        }
+    }
+    return null
+}
+
+type IChoiceInput = { title: string | IMultiLanguage, value: number }
+
+/** Builds a valid `IProcessMetadata` document */
+export class ProcessMetadataBuilder {
+    private title: IMultiLanguage = null
+    private description: IMultiLanguage = { default: "" }
+    private media: { header?: string, streamUri?: string } = null
+    private meta: { [key: string]: any } = null
+    private questions: IProcessMetadataQuestion[] = []
+
+    withTitle(title: string | IMultiLanguage) {
+        this.title = toMultiLanguage(title)
+        return this
+    }
+    withDescription(description: string | IMultiLanguage) {
+        this.description = toMultiLanguage(description)
+        return this
+    }
+    withMedia(media: { header?: string, streamUri?: string }) {
+        this.media = { ...media }
+        return this
+    }
+    withMeta(key: string, value: any) {
+        this.meta = { ...(this.meta || {}), [key]: value }
+        return this
+    }
+
+    /**
+     * Appends a question. Choices given as text are numbered from 0, in the same order.
+     * @param title The title of the question
+     * @param choices The titles of the choices, or the choices with their values
+     * @param description (optional) The description of the question
+     */
+    addQuestion(title: string | IMultiLanguage, choices: (string | IMultiLanguage)[] | IChoiceInput[], description?: string | IMultiLanguage) {
+        if (!Array.isArray(choices)) throw new Error("Invalid choices")
+
+        const items: (string | IMultiLanguage | IChoiceInput)[] = choices
+        const question: IProcessMetadataQuestion = {
+            title: toMultiLanguage(title),
+            choices: items.map((choice, idx) => {
+                if (isChoiceInput(choice)) return { title: toMultiLanguage(choice.title), value: choice.value }
+                return { title: toMultiLanguage(choice), value: idx }
+            })
+        }
+        if (description !== undefined) question.description = toMultiLanguage(description)
+
+        this.questions.push(question)
+        return this
+    }
+
+    /** Returns the metadata document. Fails if it is not valid. */
+    build(): IProcessMetadata {
+        const result: IProcessMetadata = {
+            version: PROCESS_METADATA_VERSION,
+            title: this.title,
+            description: this.description,
+            questions: this.questions
+        }
+        if (this.media) result.media = this.media
+        if (this.meta) result.meta = this.meta
+
+        const errors = validateProcessMetadata(result)
+        if (errors.length) throw new Error(errors[0])
+
+        return JSON.parse(JSON.stringify(result))
+    }
+}
+
+// HELPERS
+
+const keccakHashPattern = /^[0-9a-f]{64}$/
+
+function isMultiLanguage(value: IMultiLanguage): boolean {
+    if (!value || typeof value != "object" || typeof value.default != "string") return false
+    return Object.keys(value).every(lang => typeof value[lang] == "string")
+}
+
+function isChoiceInput(choice: string | IMultiLanguage | IChoiceInput): choice is IChoiceInput {
+    return !!choice && typeof choice == "object" && "value" in choice
+}
+
+function toMultiLanguage(value: string | IMultiLanguage): IMultiLanguage {
+    if (typeof value == "string") return { default: value }
+    return value
+}
@@ -0,0 +1,114 @@
+import { COST_EXPONENT_UNIT, IProcessCreateParams, ProcessCensusOrigin, ProcessContractParameters, ProcessEnvelopeType, ProcessMode } from "./index"
+import { validateProcessParams } from "./process-validation"
+
+const ZERO_BYTES32 = "0x0000000000000000000000000000000000000000000000000000000000000000"
+
+/**
+ * - `signed-poll`: Single choice questions on an off-chain census. Votes are signed by the voters and the process can be ended at any time.
+ * - `anonymous-referendum`: A single yes/no question (`0` = no, `1` = yes) on an off-chain census, with anonymous voters.
+ * - `assembly`: Questions are voted one after another (serial), as the entity moves forward. The process is started and ended on demand.
+ * - `erc20-token-vote`: Single choice questions, where the holders of an ERC20 token vote with their balance at `evmBlockHeight`.
+ * - `encrypted-election`: Single choice questions with encrypted votes, so that results remain unknown until the process ends.
+ */
+export type IProcessPresetName = "signed-poll" | "anonymous-referendum" | "assembly" | "erc20-token-vote" | "encrypted-election"
+
+export const processPresetNames: IProcessPresetName[] = ["signed-poll", "anonymous-referendum", "assembly", "erc20-token-vote", "encrypted-election"]
+
+const commonFields: Partial<IProcessCreateParams> = {
+    maxCount: 1,
+    maxVoteOverwrites: 0,
+    maxTotalCost: 0,
+    costExponent: COST_EXPONENT_UNIT
+}
+
+function getPresetFields(preset: IProcessPresetName): Partial<IProcessCreateParams> {
+    switch (preset) {
+        case "signed-poll":
+            return {
+                ...commonFields,
+                mode: ProcessMode.make({ autoStart: true, interruptible: true }),
+                envelopeType: ProcessEnvelopeType.make(),
+                censusOrigin: ProcessCensusOrigin.OFF_CHAIN_TREE
+            }
+        case "anonymous-referendum":
+            return {
+                ...commonFields,
+                mode: ProcessMode.make({ autoStart: true }),
+                envelopeType: ProcessEnvelopeType.make({ anonymousVoters: true }),
+                censusOrigin: ProcessCensusOrigin.OFF_CHAIN_TREE,
+                questionCount: 1,
+                maxValue: 1
+            }
+        case "assembly":
+            return {
+                ...commonFields,
+                mode: ProcessMode.make({ interruptible: true }),
+                envelopeType: ProcessEnvelopeType.make({ serial: true }),
+                censusOrigin: ProcessCensusOrigin.OFF_CHAIN_TREE,
+                blockCount: 0
+            }
+        case "erc20-token-vote":
+            return {
+                ...commonFields,
+                mode: ProcessMode.make({ autoStart: true }),
+                envelopeType: ProcessEnvelopeType.make(),
+                censusOrigin: ProcessCensusOrigin.ERC20
+            }
+        case "encrypted-election":
+            return {
+                ...commonFields,
+                mode: ProcessMode.make({ autoStart: true }),
+                envelopeType: ProcessEnvelopeType.make({ encryptedVotes: true }),
+                censusOrigin: ProcessCensusOrigin.OFF_CHAIN_TREE
+            }
+        default:
+            throw new Error("Invalid preset")
+    }
+}
+
+/**
+ * Returns the parameters of a new process of the given kind. The preset defines the mode, the envelope type, the census origin and the ballot limits,
+ * while `params` provides the rest of fields (metadata, census, blocks, ...) and can override any of the preset fields. Undefined values are ignored.
+ *
+ * The resulting parameters are checked with `validateProcessParams()` and `ProcessContractParameters.fromParams()`, and the first violation is thrown as an error.
+ * `paramsSignature` can be left empty, so that the parameters can be signed before creating the process.
+ *
+ * @param preset The kind of process
+ * @param params The fields not defined by the preset, or the ones to override
+ * @param sender (optional) The address that will create the process
+ */
+export function makeProcessParams(preset: IProcessPresetName, params: Partial<IProcessCreateParams>, sender?: string): IProcessCreateParams {
+    const fields = getPresetFields(preset)
+    for (let field in params || {}) {
+        if (params[field] !== undefined) fields[field] = params[field]
+    }
+
+    const result: IProcessCreateParams = {
+        mode: fields.mode,
+        envelopeType: fields.envelopeType,
+        censusOrigin: fields.censusOrigin,
+        tokenAddress: fields.tokenAddress,
+        metadata: fields.metadata,
+        censusRoot: fields.censusRoot,
+        censusUri: fields.censusUri,
+        startBlock: fields.startBlock,
+        blockCount: fields.blockCount,
+        questionCount: fields.questionCount,
+        maxCount: fields.maxCount,
+        maxValue: fields.maxValue,
+        maxVoteOverwrites: fields.maxVoteOverwrites,
+        maxTotalCost: fields.maxTotalCost,
+        costExponent: fields.costExponent,
+        namespace: fields.namespace,
+        evmBlockHeight: fields.evmBlockHeight,
+        paramsSignature: fields.paramsSignature
+    }
+
+    const violations = validateProcessParams(result, sender).filter(item => item.field != "paramsSignature" || !!result.paramsSignature)
+    if (violations.length) throw new Error(violations[0].message)
+
+    // Fail on error
+    ProcessContractParameters.fromParams({ ...result, paramsSignature: result.paramsSignature || ZERO_BYTES32 })
+
+    return result
+}
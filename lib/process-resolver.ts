@@ -0,0 +1,88 @@
+import * as Process from "./processes.json"
+import { Contract, Signer, providers } from "ethers"
+import { ProcessContractMethods } from "./index"
+
+const NULL_ADDRESS = "0x0000000000000000000000000000000000000000"
+
+/**
+ * Follows the `predecessorAddress` and `successorAddress` links of chained Processes instances,
+ * so that operations on a process can be sent to the instance where it was created.
+ */
+export class ProcessInstanceResolver {
+    private signerOrProvider: Signer | providers.Provider
+    private instances: { [address: string]: Contract & ProcessContractMethods } = {}
+    /** The last known active instance */
+    private activeAddress: string
+    /** Instance address indexed by process ID. Processes never move, so entries never expire. */
+    private processInstances: { [processId: string]: string } = {}
+
+    /**
+     * @param contractAddress The address of any instance within the chain. The active instance is preferred.
+     * @param signerOrProvider A signer is required to send transactions. A provider is enough for read-only operations.
+     */
+    constructor(contractAddress: string, signerOrProvider: Signer | providers.Provider) {
+        if (!contractAddress) throw new Error("Invalid contract address")
+        else if (!signerOrProvider) throw new Error("Invalid signer or provider")
+
+        this.signerOrProvider = signerOrProvider
+        this.activeAddress = contractAddress
+    }
+
+    /** Returns the contract instance attached to the given address */
+    attach(contractAddress: string): Contract & ProcessContractMethods {
+        if (!this.instances[contractAddress]) {
+            this.instances[contractAddress] = new Contract(contractAddress, Process.abi, this.signerOrProvider) as Contract & ProcessContractMethods
+        }
+        return this.instances[contractAddress]
+    }
+
+    /**
+     * Returns the instance that currently accepts new processes.
+     * Successors are followed from the last known active instance. If the last one has not been activated yet, its predecessors are used instead.
+     */
+    async getActiveInstance(): Promise<Contract & ProcessContractMethods> {
+        let instance = this.attach(this.activeAddress)
+
+        let successorAddress = await instance.successorAddress()
+        while (successorAddress != NULL_ADDRESS) {
+            instance = this.attach(successorAddress)
+            successorAddress = await instance.successorAddress()
+        }
+
+        while ((await instance.activationBlock()).isZero()) {
+            const predecessorAddress = await instance.predecessorAddress()
+            if (predecessorAddress == NULL_ADDRESS) throw new Error("There is no active instance")
+
+            instance = this.attach(predecessorAddress)
+        }
+
+        this.activeAddress = instance.address
+        return instance
+    }
+
+    /** Returns the active instance, followed by all of its predecessors */
+    async getInstances(): Promise<(Contract & ProcessContractMethods)[]> {
+        let instance = await this.getActiveInstance()
+        const result = [instance]
+
+        let predecessorAddress = await instance.predecessorAddress()
+        while (predecessorAddress != NULL_ADDRESS) {
+            instance = this.attach(predecessorAddress)
+            result.push(instance)
+            predecessorAddress = await instance.predecessorAddress()
+        }
+        return result
+    }
+
+    /** Returns the instance where the given process was created. This is where status, census and results updates need to be sent. */
+    async getProcessInstance(processId: string): Promise<Contract & ProcessContractMethods> {
+        const key = processId.toLowerCase()
+        if (this.processInstances[key]) return this.attach(this.processInstances[key])
+
+        const activeInstance = await this.getActiveInstance()
+        const creationAddress = await activeInstance.getCreationInstance(processId)
+
+        this.processInstances[key] = creationAddress
+        return this.attach(creationAddress)
+    }
+}
@@ -0,0 +1,128 @@
+import { IProcessCreateParams, ProcessContractParameters, ProcessStatus } from "./index"
+
+/** The average time between two Vochain blocks, in milliseconds */
+export const DEFAULT_BLOCK_TIME = 10000
+
+/** A block whose date is known, used to convert the rest of blocks into dates */
+export type IBlockReference = {
+    blockNumber: number,
+    date: Date
+}
+
+export type IProcessTimeLeft = {
+    /** The effective status of the process at the given date (see `getEffectiveStatus()`) */
+    status: ProcessStatus,
+    /** The block being produced at the given date */
+    currentBlock: number,
+    /** Zero if the process already started */
+    blocksUntilStart: number,
+    /** Zero if the process already ended. `null` on open-ended processes (`blockCount` zero). */
+    blocksUntilEnd: number,
+    /** Milliseconds until `startBlock`. Zero if the process already started. */
+    untilStart: number,
+    /** Milliseconds until `startBlock + blockCount`. Zero if the process already ended. `null` on open-ended processes. */
+    untilEnd: number
+}
+
+/**
+ * Returns the status that a process has at the given block, combining the stored `status` with the window of `AUTO_START` processes:
+ * - Before `startBlock`, `READY` processes behave like `PAUSED`
+ * - From `startBlock + blockCount` on, `READY` and `PAUSED` processes behave like `ENDED`, unless `blockCount` is zero (open-ended)
+ *
+ * Processes without `AUTO_START` and terminated processes keep their stored status.
+ */
+export function getEffectiveStatus(params: ProcessContractParameters, blockNumber: number): ProcessStatus {
+    if (!params || !params.status) throw new Error("Invalid parameters")
+    else if (!isBlockNumber(blockNumber)) throw new Error("Invalid block number")
+
+    const { status } = params
+    if (!params.mode.isAutoStart || (!status.isReady && !status.isPaused)) return status
+    else if (params.blockCount > 0 && blockNumber >= params.startBlock + params.blockCount) return new ProcessStatus(ProcessStatus.ENDED)
+    else if (blockNumber < params.startBlock) return new ProcessStatus(ProcessStatus.PAUSED)
+    return status
+}
+
+/**
+ * Converts dates into Vochain block numbers and back, assuming a constant block time since a reference block.
+ * Estimations drift as the actual block time deviates, so the reference should be recent.
+ */
+export class BlockSchedule {
+    readonly reference: IBlockReference
+    /** Milliseconds per block */
+    readonly blockTime: number
+
+    constructor(reference: IBlockReference, blockTime: number = DEFAULT_BLOCK_TIME) {
+        if (!reference || !isBlockNumber(reference.blockNumber) || !isValidDate(reference.date)) throw new Error("Invalid reference")
+        else if (typeof blockTime != "number" || !(blockTime > 0)) throw new Error("Invalid block time")
+
+        this.reference = { blockNumber: reference.blockNumber, date: new Date(reference.date.getTime()) }
+        this.blockTime = blockTime
+    }
+
+    /** Returns the first block produced at or after the given date */
+    dateToBlock(date: Date): number {
+        if (!isValidDate(date)) throw new Error("Invalid date")
+
+        const blockNumber = this.reference.blockNumber + Math.ceil((date.getTime() - this.reference.date.getTime()) / this.blockTime)
+        if (blockNumber < 0) throw new Error("The date is before the first block")
+        return blockNumber
+    }
+
+    /** Returns the estimated date of the given block */
+    blockToDate(blockNumber: number): Date {
+        if (!isBlockNumber(blockNumber)) throw new Error("Invalid block number")
+        return new Date(this.reference.date.getTime() + (blockNumber - this.reference.blockNumber) * this.blockTime)
+    }
+
+    /** Returns the block being produced at the given date */
+    getCurrentBlock(date: Date = new Date()): number {
+        if (!isValidDate(date)) throw new Error("Invalid date")
+        return Math.max(0, this.reference.blockNumber + Math.floor((date.getTime() - this.reference.date.getTime()) / this.blockTime))
+    }
+
+    /** Returns the `startBlock` and `blockCount` of a process that runs from `startDate` until `endDate` */
+    getBlockWindow(startDate: Date, endDate: Date): { startBlock: number, blockCount: number } {
+        const startBlock = this.dateToBlock(startDate)
+        const endBlock = this.dateToBlock(endDate)
+        if (endBlock <= startBlock) throw new Error("The end date needs to be after the start date")
+
+        return { startBlock, blockCount: endBlock - startBlock }
+    }
+
+    /** Returns the estimated dates when the given process starts and ends. `endDate` is `null` on open-ended processes (`blockCount` zero). */
+    getProcessDates(params: Pick<IProcessCreateParams, "startBlock" | "blockCount">): { startDate: Date, endDate: Date } {
+        if (!params) throw new Error("Invalid parameters")
+
+        return {
+            startDate: this.blockToDate(params.startBlock),
+            endDate: params.blockCount > 0 ? this.blockToDate(params.startBlock + params.blockCount) : null
+        }
+    }
+
+    /** Returns the effective status of the process at the given date and how long until it starts and ends */
+    getTimeLeft(params: ProcessContractParameters, date: Date = new Date()): IProcessTimeLeft {
+        if (!params) throw new Error("Invalid parameters")
+
+        const currentBlock = this.getCurrentBlock(date)
+        const { startDate, endDate } = this.getProcessDates(params)
+
+        return {
+            status: getEffectiveStatus(params, currentBlock),
+            currentBlock,
+            blocksUntilStart: Math.max(0, params.startBlock - currentBlock),
+            blocksUntilEnd: endDate ? Math.max(0, params.startBlock + params.blockCount - currentBlock) : null,
+            untilStart: Math.max(0, startDate.getTime() - date.getTime()),
+            untilEnd: endDate ? Math.max(0, endDate.getTime() - date.getTime()) : null
+        }
+    }
+}
+
+// HELPERS
+
+function isBlockNumber(value: number): boolean {
+    return typeof value == "number" && Number.isInteger(value) && value >= 0
+}
+
+function isValidDate(value: Date): boolean {
+    return value instanceof Date && !isNaN(value.getTime())
+}
@@ -0,0 +1,102 @@
+import { Signer, utils } from "ethers"
+import { IProcessCreateParams, ProcessContractParameters } from "./index"
+
+const NULL_ADDRESS = "0x0000000000000000000000000000000000000000"
+const ZERO_BYTES32 = "0x0000000000000000000000000000000000000000000000000000000000000000"
+
+/** The ABI types of the fields covered by the params signature, in their canonical order */
+const SERIALIZED_PARAMS_TYPES = [
+    "uint8",   // mode
+    "uint8",   // envelopeType
+    "uint8",   // censusOrigin
+    "address", // tokenAddress (zero on off-chain censuses)
+    "string",  // metadata
+    "string",  // censusRoot
+    "string",  // censusUri (empty on EVM censuses)
+    "uint32",  // startBlock
+    "uint32",  // blockCount
+    "uint8",   // questionCount
+    "uint8",   // maxCount
+    "uint8",   // maxValue
+    "uint8",   // maxVoteOverwrites
+    "uint16",  // maxTotalCost
+    "uint16",  // costExponent
+    "uint16",  // namespace
+    "uint256"  // evmBlockHeight
+]
+
+/**
+ * Serializes the creation parameters of a process into the exact bytes that entities sign and oracles verify.
+ *
+ * The same bytes are produced from the parameters given to `newProcess()` and from the ones returned by `get()`:
+ * - `status`, `questionIndex` and `paramsSignature` are left out
+ * - The entity address is left out on off-chain censuses, since it is the address of the signer
+ * - `censusUri` is left out on EVM censuses, since the contract does not store it
+ *
+ * On processes with a dynamic census, `censusRoot` and `censusUri` need to be read at the block of creation.
+ */
+export function serializeProcessParams(params: ProcessContractParameters | IProcessCreateParams): string {
+    const values = params instanceof ProcessContractParameters ? params :
+        ProcessContractParameters.fromParams({ ...params, paramsSignature: params.paramsSignature || ZERO_BYTES32 })
+
+    const isOffChain = values.censusOrigin.isOffChain || values.censusOrigin.isOffChainWeighted || values.censusOrigin.isOffChainCA
+
+    return utils.defaultAbiCoder.encode(SERIALIZED_PARAMS_TYPES, [
+        values.mode.value,
+        values.envelopeType.value,
+        values.censusOrigin.value,
+        isOffChain ? NULL_ADDRESS : values.entityAddress,
+        values.metadata,
+        values.censusRoot,
+        isOffChain ? values.censusUri : "",
+        values.startBlock,
+        values.blockCount,
+        values.questionCount,
+        values.maxCount,
+        values.maxValue,
+        values.maxVoteOverwrites,
+        values.maxTotalCost,
+        values.costExponent,
+        values.namespace,
+        values.evmBlockHeight || 0
+    ])
+}
+
+/** Computes the keccak256 hash of the serialized parameters of a process */
+export function computeProcessParamsDigest(params: ProcessContractParameters | IProcessCreateParams): string {
+    return utils.keccak256(serializeProcessParams(params))
+}
+
+/**
+ * Signs the digest of the given process parameters as an Ethereum signed message (EIP-191).
+ * Returns the 65 byte signature, encoded in hex.
+ */
+export function signProcessParams(signer: Signer, params: ProcessContractParameters | IProcessCreateParams): Promise<string> {
+    if (!signer) throw new Error("Invalid signer")
+
+    return signer.signMessage(utils.arrayify(computeProcessParamsDigest(params)))
+}
+
+/** Returns true if `signature` was produced by `expectedEntity` over the given process parameters */
+export function verifyProcessParams(params: ProcessContractParameters | IProcessCreateParams, signature: string, expectedEntity: string): boolean {
+    if (!utils.isAddress(expectedEntity)) throw new Error("Invalid expectedEntity")
+
+    const digest = computeProcessParamsDigest(params)
+    try {
+        const signer = utils.verifyMessage(utils.arrayify(digest), signature)
+        return signer.toLowerCase() == expectedEntity.toLowerCase()
+    }
+    catch (err) {
+        return false
+    }
+}
+
+/**
+ * A 65 byte signature does not fit on the `bytes32` field of the contract.
+ * Returns the keccak256 hash of the signature, so that it can be stored as `paramsSignature`, while the signature itself is shared off-chain.
+ */
+export function hashProcessParamsSignature(signature: string): string {
+    if (!utils.isHexString(signature, 65)) throw new Error("Invalid signature")
+
+    return utils.keccak256(signature)
+}
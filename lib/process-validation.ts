@@ -0,0 +1,149 @@
+import { utils } from "ethers"
+import { IProcessCreateParams, ProcessCensusOrigin, ProcessEnvelopeType, ProcessMode } from "./index"
+
+const NULL_ADDRESS = "0x0000000000000000000000000000000000000000"
+
+export type IProcessParamsViolationCode =
+    // Values that do not fit the types of `newProcess()`
+    "OUT_OF_RANGE" |
+    // newProcess()
+    "UNSUPPORTED_CENSUS_ORIGIN" |
+    // newProcessStd()
+    "AUTO_START_WITHOUT_START_BLOCK" |
+    "UNINTERRUPTIBLE_WITHOUT_BLOCK_COUNT" |
+    "NO_CENSUS_URI" |
+    // newProcessEvm()
+    "EVM_WITHOUT_AUTO_START" |
+    "EVM_INTERRUPTIBLE" |
+    "EVM_INVALID_START_BLOCK" |
+    "EVM_INVALID_BLOCK_COUNT" |
+    "EVM_DYNAMIC_CENSUS" |
+    "INVALID_TOKEN_ADDRESS" |
+    // Both
+    "NO_METADATA" |
+    "NO_CENSUS_ROOT" |
+    "NO_QUESTION_COUNT" |
+    "INVALID_MAX_COUNT" |
+    "NO_MAX_VALUE"
+
+/** A parameter that would make `newProcess()` revert */
+export type IProcessParamsViolation = {
+    field: keyof IProcessCreateParams,
+    code: IProcessParamsViolationCode,
+    /** The revert reason of the contract, or `Invalid <field>` when the value cannot be encoded */
+    message: string
+}
+
+/** The upper bound of every numeric parameter, according to its type on `newProcess()` */
+const NUMERIC_FIELD_BOUNDS: [keyof IProcessCreateParams, number][] = [
+    ["mode", 255],
+    ["envelopeType", 255],
+    ["censusOrigin", 255],
+    ["startBlock", 4294967295],
+    ["blockCount", 4294967295],
+    ["questionCount", 255],
+    ["maxCount", 255],
+    ["maxValue", 255],
+    ["maxVoteOverwrites", 255],
+    ["maxTotalCost", 65535],
+    ["costExponent", 65535],
+    ["namespace", 65535]
+]
+
+/**
+ * Checks the given parameters against every rule enforced by `newProcessStd()` and `newProcessEvm()`
+ * and returns all the violations found, in the order that the contract evaluates them. An empty list means that no rule is violated.
+ *
+ * Conditions that depend on the state of the chain (whether the instance is active, the token is registered or the sender holds tokens) are not checked.
+ *
+ * @param params The parameters of the new process
+ * @param sender (optional) The address that will send the transaction. EVM processes cannot use it as the token address.
+ */
+export function validateProcessParams(params: IProcessCreateParams, sender?: string): IProcessParamsViolation[] {
+    if (!params) throw new Error("Invalid parameters")
+
+    const result: IProcessParamsViolation[] = []
+    const add = (field: keyof IProcessCreateParams, code: IProcessParamsViolationCode, message: string) => {
+        result.push({ field, code, message })
+    }
+
+    // Types
+    const values: { [field: string]: number } = {}
+    for (let [field, max] of NUMERIC_FIELD_BOUNDS) {
+        const value = unwrap(params[field])
+        if (typeof value != "number" || !Number.isInteger(value) || value < 0 || value > max) {
+            add(field, "OUT_OF_RANGE", "Invalid " + field)
+        }
+        else values[field] = value
+    }
+    if (params.evmBlockHeight !== undefined && params.evmBlockHeight !== null &&
+        (typeof params.evmBlockHeight != "number" || !Number.isInteger(params.evmBlockHeight) || params.evmBlockHeight < 0)) {
+        add("evmBlockHeight", "OUT_OF_RANGE", "Invalid evmBlockHeight")
+    }
+    if (params.tokenAddress && !utils.isAddress(params.tokenAddress)) {
+        add("tokenAddress", "OUT_OF_RANGE", "Invalid tokenAddress")
+    }
+    if (!utils.isHexString(params.paramsSignature, 32)) {
+        add("paramsSignature", "OUT_OF_RANGE", "Invalid paramsSignature")
+    }
+    if (typeof values.censusOrigin != "number") return result
+
+    const mode = values.mode || 0
+    const startBlock = values.startBlock || 0
+    const blockCount = values.blockCount || 0
+
+    if (values.censusOrigin == ProcessCensusOrigin.OFF_CHAIN_TREE ||
+        values.censusOrigin == ProcessCensusOrigin.OFF_CHAIN_TREE_WEIGHTED ||
+        values.censusOrigin == ProcessCensusOrigin.OFF_CHAIN_CA) {
+        // newProcessStd
+        if ((mode & ProcessMode.AUTO_START) != 0 && startBlock == 0)
+            add("startBlock", "AUTO_START_WITHOUT_START_BLOCK", "Auto start requires a start block")
+        if ((mode & ProcessMode.INTERRUPTIBLE) == 0 && blockCount == 0)
+            add("blockCount", "UNINTERRUPTIBLE_WITHOUT_BLOCK_COUNT", "Uninterruptible needs blockCount")
+
+        checkCommonFields(params, values, true, add)
+    }
+    else if (values.censusOrigin == ProcessCensusOrigin.ERC20) {
+        // newProcessEvm
+        if ((mode & ProcessMode.AUTO_START) == 0)
+            add("mode", "EVM_WITHOUT_AUTO_START", "Auto start is needed on EVM processes")
+        if ((mode & ProcessMode.INTERRUPTIBLE) != 0)
+            add("mode", "EVM_INTERRUPTIBLE", "Interruptible not allowed on EVM processes")
+        if (startBlock == 0)
+            add("startBlock", "EVM_INVALID_START_BLOCK", "Invalid start block")
+        if (blockCount == 0)
+            add("blockCount", "EVM_INVALID_BLOCK_COUNT", "Invalid blockCount")
+        if ((mode & ProcessMode.DYNAMIC_CENSUS) != 0)
+            add("mode", "EVM_DYNAMIC_CENSUS", "Dynamic census not allowed on EVM processes")
+
+        const tokenAddress = (params.tokenAddress || NULL_ADDRESS).toLowerCase()
+        if (tokenAddress == NULL_ADDRESS || (sender && tokenAddress == sender.toLowerCase()))
+            add("tokenAddress", "INVALID_TOKEN_ADDRESS", "Invalid token address")
+
+        checkCommonFields(params, values, false, add)
+    }
+    else {
+        add("censusOrigin", "UNSUPPORTED_CENSUS_ORIGIN", "Unsupported census origin")
+    }
+
+    return result
+}
+
+// HELPERS
+
+/** Returns the numeric value of the wrapped fields (`mode`, `envelopeType` and `censusOrigin`) */
+function unwrap(value: unknown): unknown {
+    if (value instanceof ProcessMode || value instanceof ProcessEnvelopeType || value instanceof ProcessCensusOrigin) return value.value
+    return value
+}
+
+function checkCommonFields(params: IProcessCreateParams, values: { [field: string]: number }, requireCensusUri: boolean,
+    add: (field: keyof IProcessCreateParams, code: IProcessParamsViolationCode, message: string) => void) {
+    if (!params.metadata) add("metadata", "NO_METADATA", "No metadata")
+    if (!params.censusRoot) add("censusRoot", "NO_CENSUS_ROOT", "No censusRoot")
+    if (requireCensusUri && !params.censusUri) add("censusUri", "NO_CENSUS_URI", "No censusUri")
+
+    if (values.questionCount === 0) add("questionCount", "NO_QUESTION_COUNT", "No questionCount")
+    if (values.maxCount === 0 || values.maxCount > 100) add("maxCount", "INVALID_MAX_COUNT", "Invalid maxCount")
+    if (values.maxValue === 0) add("maxValue", "NO_MAX_VALUE", "No maxValue")
+}
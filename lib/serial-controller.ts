@@ -0,0 +1,125 @@
+import { EventEmitter } from "events"
+import { Contract, providers } from "ethers"
+import { IMethodOverrides, IProcessStatus, ProcessContractMethods, ProcessContractParameters, ProcessStatus } from "./index"
+import { ProcessClient } from "./process-client"
+import { decodeProcessEvents, IQuestionIndexUpdatedEvent, IStatusUpdatedEvent } from "./process-events"
+
+/** The events emitted by `SerialProcessController` once each transaction is mined */
+export type ISerialProcessControllerEvents = {
+    /** The process moved to the question `newIndex` */
+    QuestionIndexUpdated: (event: IQuestionIndexUpdatedEvent) => void,
+    /** The status of the process changed. `incrementQuestionIndex` ends the process after the last question. */
+    StatusUpdated: (event: IStatusUpdatedEvent) => void
+}
+
+export interface SerialProcessController {
+    on<E extends keyof ISerialProcessControllerEvents>(event: E, listener: ISerialProcessControllerEvents[E]): this
+    once<E extends keyof ISerialProcessControllerEvents>(event: E, listener: ISerialProcessControllerEvents[E]): this
+    off<E extends keyof ISerialProcessControllerEvents>(event: E, listener: ISerialProcessControllerEvents[E]): this
+    emit<E extends keyof ISerialProcessControllerEvents>(event: E, ...args: Parameters<ISerialProcessControllerEvents[E]>): boolean
+}
+
+/**
+ * Drives a serial process (assemblies) through its questions on behalf of its entity.
+ * The preconditions of the contract are checked against the current state of the process before sending each transaction,
+ * and the events of the mined transaction are emitted afterwards.
+ */
+export class SerialProcessController extends EventEmitter {
+    readonly client: ProcessClient
+    readonly processId: string
+    private _params: ProcessContractParameters = null
+    private _pending = false
+
+    /**
+     * @param client A client whose signer is the entity of the process
+     * @param processId The ID of a process using `ENV_TYPE_SERIAL`
+     */
+    constructor(client: ProcessClient, processId: string) {
+        super()
+        if (!client) throw new Error("Invalid client")
+        else if (!processId) throw new Error("Invalid processId")
+
+        this.client = client
+        this.processId = processId
+    }
+
+    /** The parameters of the process, as of the last `load()` or the last transaction. `null` until then. */
+    get params(): ProcessContractParameters { return this._params }
+    get questionIndex(): number { return this._params ? this._params.questionIndex : null }
+    get questionCount(): number { return this._params ? this._params.questionCount : null }
+    get status(): ProcessStatus { return this._params ? this._params.status : null }
+    /** True if `next()` will end the process */
+    get isLastQuestion(): boolean { return !!this._params && this._params.questionIndex + 1 >= this._params.questionCount }
+
+    /** Fetches the current parameters of the process */
+    async load(): Promise<ProcessContractParameters> {
+        this._params = await this.client.getProcess(this.processId)
+        return this._params
+    }
+
+    /** Moves to the next question. On the last question, the contract ends the process instead. */
+    next(overrides?: IMethodOverrides): Promise<ProcessContractParameters> {
+        return this.send(params => {
+            if (!params.status.isReady) throw new Error("Process not ready")
+        }, instance => instance.incrementQuestionIndex(this.processId, overrides || {}))
+    }
+
+    /** Pauses an interruptible process */
+    pause(overrides?: IMethodOverrides): Promise<ProcessContractParameters> {
+        return this.setStatus(ProcessStatus.PAUSED, overrides)
+    }
+
+    /** Sets a paused process as ready. Processes that are not interruptible can only leave the initial pause. */
+    resume(overrides?: IMethodOverrides): Promise<ProcessContractParameters> {
+        return this.setStatus(ProcessStatus.READY, overrides)
+    }
+
+    /** Ends an interruptible process before its last question */
+    end(overrides?: IMethodOverrides): Promise<ProcessContractParameters> {
+        return this.setStatus(ProcessStatus.ENDED, overrides)
+    }
+
+    // INTERNAL
+
+    /** Sends `setStatus()` if the contract accepts the transition. Rejected transitions fail with the same reason as the contract. */
+    private setStatus(status: IProcessStatus, overrides?: IMethodOverrides) {
+        return this.send(params => {
+            if (!params.status.isReady && !params.status.isPaused) throw new Error("Process terminated")
+            else if (!params.mode.isInterruptible && (params.status.isReady || status != ProcessStatus.READY)) throw new Error("Not interruptible")
+            else if (params.status.value == status) throw new Error("Must differ")
+        }, instance => instance.setStatus(this.processId, status, overrides || {}))
+    }
+
+    /** Checks the common preconditions and `check`, sends the transaction, emits its events and reloads the process */
+    private async send(check: (params: ProcessContractParameters) => void, sendTx: (instance: Contract & ProcessContractMethods) => Promise<providers.TransactionResponse>): Promise<ProcessContractParameters> {
+        if (this._pending) throw new Error("Another transaction is pending")
+        this._pending = true
+
+        try {
+            const signer = this.client.instance.signer
+            if (!signer) throw new Error("A signer is required")
+
+            const [params, sender] = await Promise.all([this.load(), signer.getAddress()])
+            if (!params.entityAddress || params.entityAddress.toLowerCase() != sender.toLowerCase()) throw new Error("Invalid entity")
+            else if (!params.envelopeType.hasSerialVoting) throw new Error("Process not serial")
+            else if (!params.censusOrigin.isOffChain && !params.censusOrigin.isOffChainWeighted && !params.censusOrigin.isOffChainCA)
+                throw new Error("Not off-chain")
+            check(params)
+
+            const instance = await this.client.resolver.getProcessInstance(this.processId)
+            const tx = await sendTx(instance)
+            const receipt = await tx.wait()
+
+            await this.load()
+
+            for (let event of decodeProcessEvents(receipt.logs)) {
+                if (event.name == "QuestionIndexUpdated") this.emit("QuestionIndexUpdated", event)
+                else if (event.name == "StatusUpdated") this.emit("StatusUpdated", event)
+            }
+            return this._params
+        }
+        finally {
+            this._pending = false
+        }
+    }
+}
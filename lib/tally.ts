@@ -0,0 +1,109 @@
+import { parseWeight } from "./crypto-utils"
+import { ProcessContractParameters, ProcessResults } from "./index"
+import { IVotePackage, VotePackage } from "./vote-package"
+
+/** Highest value that a tally count can hold on the contract (`uint32`) */
+export const MAX_TALLY_COUNT = 0xffffffff
+
+/** A vote cast on a process, as seen by the tally engine */
+export type IVoteEnvelope = {
+    /** Identifies the voter (address, public key, nullifier). Envelopes of the same voter overwrite each other. */
+    voter: string,
+    votePackage: VotePackage | IVotePackage,
+    /** The weight of the voter, required on weighted censuses and ignored otherwise */
+    weight?: number | string
+}
+
+export type ITallyReport = {
+    results: ProcessResults,
+    /** The voters whose envelopes are counted, sorted by the position of their counted envelopes */
+    voters: string[],
+    /** The envelopes that are not counted, by position on the given list */
+    discarded: { index: number, reason: string }[]
+}
+
+/**
+ * Computes the results of a process from its envelopes, in arrival order. See `computeTallyReport()`.
+ */
+export function computeTally(params: ProcessContractParameters, envelopes: IVoteEnvelope[]): ProcessResults {
+    return computeTallyReport(params, envelopes).results
+}
+
+/**
+ * Computes the results of a process from its envelopes, given in arrival order, and reports the envelopes that are not counted.
+ * - Each voter can cast `maxVoteOverwrites + 1` envelopes. Only the last one counts and the rest are discarded.
+ * - On serial processes, the limit applies to each question independently
+ * - Envelopes that are not valid for the process are discarded and they do not consume any overwrite
+ * - On weighted censuses (weighted off-chain trees and token based ones), every choice adds the weight of the voter
+ * - On weighted censuses, envelopes without a weight are discarded
+ *
+ * `height` is the amount of voters counted. The result is the same regardless of who runs it.
+ */
+export function computeTallyReport(params: ProcessContractParameters, envelopes: IVoteEnvelope[]): ITallyReport {
+    if (!params) throw new Error("Invalid parameters")
+    else if (!Array.isArray(envelopes)) throw new Error("Invalid envelopes")
+
+    const weighted = params.censusOrigin.isOffChainWeighted || !(params.censusOrigin.isOffChain || params.censusOrigin.isOffChainCA)
+    // On serial processes, envelopes may target any question and not only the current one
+    const packageParams = Object.assign(new ProcessContractParameters(), params, { questionIndex: undefined })
+
+    const discarded: { index: number, reason: string }[] = []
+    const ballots = new Map<string, { index: number, votePackage: IVotePackage, weight: number, submissions: number }>()
+
+    envelopes.forEach((envelope, index) => {
+        if (!envelope || typeof envelope.voter != "string" || !envelope.voter)
+            return discarded.push({ index, reason: "Invalid voter" })
+
+        const votePackage = envelope.votePackage instanceof VotePackage ? envelope.votePackage.value : envelope.votePackage
+        const errors = VotePackage.validate(packageParams, votePackage)
+        if (errors.length) return discarded.push({ index, reason: errors[0] })
+
+        if (weighted && (envelope.weight === undefined || envelope.weight === null))
+            return discarded.push({ index, reason: "Missing weight" })
+        const weight = weighted ? parseTallyWeight(envelope.weight) : 1
+        if (weight === null) return discarded.push({ index, reason: "Invalid weight" })
+
+        const key = params.envelopeType.hasSerialVoting ? envelope.voter + "/" + votePackage.questionIndex : envelope.voter
+        const previous = ballots.get(key)
+        if (!previous) return ballots.set(key, { index, votePackage, weight, submissions: 1 })
+        else if (previous.submissions > params.maxVoteOverwrites)
+            return discarded.push({ index, reason: "Too many vote overwrites" })
+
+        discarded.push({ index: previous.index, reason: "Overwritten" })
+        ballots.set(key, { index, votePackage, weight, submissions: previous.submissions + 1 })
+    })
+
+    const tally: number[][] = []
+    for (let i = 0; i < params.questionCount; i++) tally.push(new Array(params.maxValue + 1).fill(0))
+
+    const voters: string[] = []
+    const counted = Array.from(ballots.entries()).sort((a, b) => a[1].index - b[1].index)
+    for (let [key, ballot] of counted) {
+        ballot.votePackage.votes.forEach((values, idx) => {
+            const question = params.envelopeType.hasSerialVoting ? ballot.votePackage.questionIndex : idx
+            values.forEach(value => {
+                tally[question][value] += ballot.weight
+                if (tally[question][value] > MAX_TALLY_COUNT) throw new Error("The tally exceeds the uint32 range")
+            })
+        })
+
+        const voter = params.envelopeType.hasSerialVoting ? key.substr(0, key.lastIndexOf("/")) : key
+        if (!voters.includes(voter)) voters.push(voter)
+    }
+
+    if (!voters.length) throw new Error("No valid votes")
+
+    discarded.sort((a, b) => a.index - b.index)
+    return { results: new ProcessResults(tally, voters.length), voters, discarded }
+}
+
+// HELPERS
+
+function parseTallyWeight(weight: number | string): number {
+    try {
+        return parseWeight(weight, MAX_TALLY_COUNT).toNumber()
+    }
+    catch (err) {
+        return null
+    }
+}
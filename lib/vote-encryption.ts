@@ -0,0 +1,217 @@
+import { utils } from "ethers"
+import { eciesDecrypt, eciesEncrypt, normalizePublicKey, packEciesPayload, unpackEciesPayload } from "./crypto-utils"
+import { ProcessContractParameters, ProcessResults } from "./index"
+import { computeTallyReport, IVoteEnvelope } from "./tally"
+import { IVotePackage, VotePackage } from "./vote-package"
+
+/** Maximum amount of encryption keys that a process can use (indexes from 0 to 255) */
+export const MAX_PROCESS_KEYS = 256
+
+/**
+ * An encryption key of a process. The keyholder publishes `publicKey` on its index before the process starts
+ * and reveals `privateKey` once it ends.
+ */
+export type IProcessKey = {
+    index: number,
+    /** Compressed public key */
+    publicKey: string,
+    privateKey?: string
+}
+
+/**
+ * The vote package of an envelope, encrypted with the public keys of `keyIndexes`, in the same order.
+ * `votePackage` is a hex string.
+ */
+export type IEncryptedVotePackage = {
+    keyIndexes: number[],
+    votePackage: string
+}
+
+/** An envelope with an encrypted vote package, as given to `tallyEncryptedVotes()`. See `IVoteEnvelope`. */
+export type IEncryptedVoteEnvelope = {
+    voter: string,
+    votePackage: IEncryptedVotePackage,
+    weight?: number | string
+}
+
+/** Wrapper class to manage the set of encryption keys of a process, held by one or more keyholders */
+export class ProcessKeys {
+    private _keys: { [index: number]: IProcessKey } = {}
+
+    /** Wraps the given keys. Private keys are optional and they need to match their public key. */
+    constructor(keys: IProcessKey[] = []) {
+        if (!Array.isArray(keys)) throw new Error("Invalid keys")
+
+        for (let key of keys) {
+            if (!key || typeof key != "object") throw new Error("Invalid keys")
+
+            this.addPublicKey(key.index, key.publicKey)
+            if (key.privateKey) this.revealPrivateKey(key.index, key.privateKey)
+        }
+    }
+
+    /** Creates a new random key for the given index. Keyholders keep the private key until the process ends. */
+    static generateKey(index: number): IProcessKey {
+        checkKeyIndex(index)
+
+        const signingKey = new utils.SigningKey(utils.randomBytes(32))
+        return { index, publicKey: signingKey.compressedPublicKey, privateKey: signingKey.privateKey }
+    }
+
+    /** Creates a set of `count` random keys, with indexes from 0 to `count - 1` */
+    static generate(count: number): ProcessKeys {
+        if (!Number.isInteger(count) || count < 1 || count > MAX_PROCESS_KEYS) throw new Error("Invalid key count")
+
+        const keys: IProcessKey[] = []
+        for (let i = 0; i < count; i++) keys.push(ProcessKeys.generateKey(i))
+        return new ProcessKeys(keys)
+    }
+
+    /** The indexes of the keys, sorted */
+    get indexes(): number[] {
+        return Object.keys(this._keys).map(index => parseInt(index)).sort((a, b) => a - b)
+    }
+    get size(): number { return this.indexes.length }
+
+    /** True if every private key has been revealed */
+    get isRevealed(): boolean {
+        const indexes = this.indexes
+        return indexes.length > 0 && indexes.every(index => !!this._keys[index].privateKey)
+    }
+
+    /** Returns a copy of the key with the given index */
+    getKey(index: number): IProcessKey {
+        if (!this._keys[index]) throw new Error("Unknown key index")
+        return { ...this._keys[index] }
+    }
+
+    /** Registers the public key of a keyholder */
+    addPublicKey(index: number, publicKey: string) {
+        checkKeyIndex(index)
+        if (this._keys[index]) throw new Error("Duplicate key index")
+
+        this._keys[index] = { index, publicKey: normalizePublicKey(publicKey) }
+    }
+
+    /** Registers the private key revealed by a keyholder. Fails if it does not match the public key of the index. */
+    revealPrivateKey(index: number, privateKey: string) {
+        if (!this._keys[index]) throw new Error("Unknown key index")
+
+        let signingKey: utils.SigningKey
+        try {
+            if (utils.hexDataLength(privateKey) != 32) throw new Error()
+            signingKey = new utils.SigningKey(privateKey)
+        }
+        catch (err) {
+            throw new Error("Invalid private key")
+        }
+        if (signingKey.compressedPublicKey != this._keys[index].publicKey) throw new Error("The private key does not match")
+
+        this._keys[index].privateKey = signingKey.privateKey
+    }
+
+    /** Returns a copy of the set without the private keys */
+    toPublic(): ProcessKeys {
+        return new ProcessKeys(this.indexes.map(index => ({ index, publicKey: this._keys[index].publicKey })))
+    }
+
+    /** Returns the keys sorted by index */
+    toJSON(): IProcessKey[] {
+        return this.indexes.map(index => ({ ...this._keys[index] }))
+    }
+
+    static fromJSON(keys: IProcessKey[]): ProcessKeys {
+        return new ProcessKeys(keys)
+    }
+}
+
+/**
+ * Encrypts the given package with every public key of the set, in ascending index order.
+ * Fails if the process does not use encrypted votes or if the package is not valid for it.
+ */
+export function encryptVotePackage(params: ProcessContractParameters, votePackage: VotePackage, keys: ProcessKeys): IEncryptedVotePackage {
+    if (!params) throw new Error("Invalid parameters")
+    else if (!params.envelopeType.hasEncryptedVotes) throw new Error("The process does not use encrypted votes")
+    else if (!(votePackage instanceof VotePackage)) throw new Error("Invalid vote package")
+    else if (!(keys instanceof ProcessKeys) || !keys.size) throw new Error("No encryption keys")
+
+    const errors = VotePackage.validate(params, votePackage.value)
+    if (errors.length) throw new Error(errors[0])
+
+    const keyIndexes = keys.indexes
+    let data = utils.toUtf8Bytes(votePackage.serialize())
+    for (let index of keyIndexes) {
+        data = packEciesPayload(eciesEncrypt(keys.getKey(index).publicKey, data))
+    }
+
+    return { keyIndexes, votePackage: utils.hexlify(data) }
+}
+
+/**
+ * Decrypts the given package with the revealed private keys of `keyIndexes`, in reverse order,
+ * and checks it against the process.
+ */
+export function decryptVotePackage(params: ProcessContractParameters, encrypted: IEncryptedVotePackage, keys: ProcessKeys): VotePackage {
+    if (!params) throw new Error("Invalid parameters")
+    else if (!(keys instanceof ProcessKeys)) throw new Error("Invalid keys")
+
+    const data = decryptPayload(encrypted, keys)
+    return VotePackage.parse(params, utils.toUtf8String(data))
+}
+
+/**
+ * Decrypts the given envelopes and computes the results of the process with `computeTallyReport()`,
+ * applying the same overwrite and weight rules as plain envelopes.
+ * Envelopes that cannot be decrypted are discarded and they do not consume any overwrite.
+ * Fails if the process has not ended yet or if any private key is missing.
+ */
+export function tallyEncryptedVotes(params: ProcessContractParameters, envelopes: IEncryptedVoteEnvelope[], keys: ProcessKeys): ProcessResults {
+    if (!params) throw new Error("Invalid parameters")
+    else if (!Array.isArray(envelopes)) throw new Error("Invalid envelopes")
+    else if (params.status && !params.status.isEnded && !params.status.hasResults) throw new Error("The process has not ended")
+    else if (!(keys instanceof ProcessKeys) || !keys.isRevealed) throw new Error("The process keys are not revealed")
+
+    const decrypted: IVoteEnvelope[] = []
+    for (let envelope of envelopes) {
+        if (!envelope) continue
+
+        try {
+            const votePackage: IVotePackage = JSON.parse(utils.toUtf8String(decryptPayload(envelope.votePackage, keys)))
+            decrypted.push({ voter: envelope.voter, votePackage, weight: envelope.weight })
+        }
+        catch (err) {
+            continue
+        }
+    }
+
+    return computeTallyReport(params, decrypted).results
+}
+
+// HELPERS
+
+function checkKeyIndex(index: number) {
+    if (typeof index != "number" || !Number.isInteger(index) || index < 0 || index >= MAX_PROCESS_KEYS) throw new Error("Invalid key index")
+}
+
+/** Removes the encryption layers of the given package, in reverse order */
+function decryptPayload(encrypted: IEncryptedVotePackage, keys: ProcessKeys): Uint8Array {
+    if (!encrypted || !Array.isArray(encrypted.keyIndexes) || !encrypted.keyIndexes.length || !utils.isHexString(encrypted.votePackage))
+        throw new Error("Invalid encrypted vote package")
+
+    const privateKeys = encrypted.keyIndexes.map(index => {
+        const { privateKey } = keys.getKey(index)
+        if (!privateKey) throw new Error(`The private key ${index} is not revealed`)
+        return privateKey
+    })
+
+    let data = utils.arrayify(encrypted.votePackage)
+    try {
+        for (let i = privateKeys.length - 1; i >= 0; i--) {
+            data = eciesDecrypt(privateKeys[i], unpackEciesPayload(data))
+        }
+    }
+    catch (err) {
+        throw new Error("Could not decrypt the vote package")
+    }
+    return data
+}
@@ -0,0 +1,130 @@
+import { utils } from "ethers"
+import { isBallotAffordable, ProcessContractParameters } from "./index"
+
+/**
+ * The choices of a voter, as sent within an envelope.
+ * `votes[i]` holds the values chosen on the i-th question. On serial processes, it only holds the values of `questionIndex`.
+ */
+export type IVotePackage = {
+    /** Random hex string, required when votes are encrypted so that equal ballots produce different ciphertexts */
+    nonce?: string,
+    /** Serial processes only */
+    questionIndex?: number,
+    votes: number[][]
+}
+
+/** Wrapper class to build, validate and serialize the vote package of a process */
+export class VotePackage {
+    private _package: IVotePackage
+
+    /** Wraps the given package, failing if it does not hold a valid ballot for the given process */
+    constructor(params: ProcessContractParameters, votePackage: IVotePackage) {
+        const errors = VotePackage.validate(params, votePackage)
+        if (errors.length) throw new Error(errors[0])
+
+        this._package = votePackage
+    }
+    get value(): IVotePackage { return this._package }
+
+    get votes(): number[][] { return this._package.votes }
+    get nonce(): string { return this._package.nonce }
+    get questionIndex(): number { return this._package.questionIndex }
+
+    /**
+     * Creates the vote package of a process.
+     * On serial processes, `votes` is expected to contain a single question and `questionIndex` defaults to the current one.
+     * A random nonce is generated when votes are encrypted.
+     */
+    static build(params: ProcessContractParameters, votes: number[][], options: { questionIndex?: number, nonce?: string } = {}): VotePackage {
+        if (!params) throw new Error("Invalid parameters")
+
+        const result: IVotePackage = { votes }
+        if (params.envelopeType.hasEncryptedVotes) {
+            result.nonce = options.nonce || utils.hexlify(utils.randomBytes(16))
+        }
+        else if (options.nonce) result.nonce = options.nonce
+
+        if (params.envelopeType.hasSerialVoting) {
+            result.questionIndex = typeof options.questionIndex == "number" ? options.questionIndex : (params.questionIndex || 0)
+        }
+        return new VotePackage(params, result)
+    }
+
+    /**
+     * Returns the list of constraints of the process that the given package does not meet. An empty list means that the package is valid.
+     * - `questionCount` and `questionIndex` (serial processes)
+     * - Between 1 and `maxCount` choices per question, with values from 0 to `maxValue`
+     * - `uniqueValues`: no value can be chosen twice on the same question
+     * - `maxTotalCost`: Σ value^(costExponent / 10000) cannot exceed `maxTotalCost` on each question, unless it is zero
+     * - `encryptedVotes`: a nonce is required
+     */
+    static validate(params: ProcessContractParameters, votePackage: IVotePackage): string[] {
+        if (!params) throw new Error("Invalid parameters")
+        else if (!votePackage || !Array.isArray(votePackage.votes)) return ["Invalid vote package"]
+
+        const errors: string[] = []
+        const { votes } = votePackage
+
+        if (params.envelopeType.hasSerialVoting) {
+            const questionIndex = votePackage.questionIndex
+            if (typeof questionIndex != "number" || !Number.isInteger(questionIndex) || questionIndex < 0 || questionIndex >= params.questionCount)
+                errors.push("Invalid questionIndex")
+            else if (typeof params.questionIndex == "number" && questionIndex != params.questionIndex)
+                errors.push("The questionIndex does not match the current question")
+
+            if (votes.length != 1) errors.push("Serial processes expect the votes of a single question")
+        }
+        else {
+            if (typeof votePackage.questionIndex == "number") errors.push("The process is not serial")
+            if (votes.length != params.questionCount) errors.push("The amount of questions does not match questionCount")
+        }
+
+        if (params.envelopeType.hasEncryptedVotes && !utils.isHexString(votePackage.nonce))
+            errors.push("Encrypted votes require a nonce")
+        else if (votePackage.nonce !== undefined && !utils.isHexString(votePackage.nonce))
+            errors.push("Invalid nonce")
+
+        votes.forEach((values, idx) => {
+            const question = params.envelopeType.hasSerialVoting ? votePackage.questionIndex : idx
+
+            if (!Array.isArray(values) || !values.length)
+                return errors.push(`No choices on question ${question}`)
+            else if (values.length > params.maxCount)
+                errors.push(`Too many choices on question ${question}`)
+
+            if (values.some(value => typeof value != "number" || !Number.isInteger(value) || value < 0 || value > params.maxValue))
+                return errors.push(`Invalid value on question ${question}`)
+            else if (params.envelopeType.hasUniqueValues && new Set(values).size != values.length)
+                errors.push(`Repeated values on question ${question}`)
+
+            if (!isBallotAffordable(values, params.maxTotalCost, params.costExponent))
+                errors.push(`The cost of question ${question} exceeds maxTotalCost`)
+        })
+
+        return errors
+    }
+
+    /** Serializes the package as JSON, with its keys always in the same order */
+    serialize(): string {
+        const { nonce, questionIndex } = this._package
+        const result: IVotePackage = {
+            ...(nonce !== undefined ? { nonce } : {}),
+            ...(questionIndex !== undefined ? { questionIndex } : {}),
+            votes: this._package.votes.map(values => values.slice())
+        }
+
+        return JSON.stringify(result)
+    }
+
+    /** Parses a serialized package and checks it against the given process */
+    static parse(params: ProcessContractParameters, serializedPackage: string): VotePackage {
+        let votePackage: IVotePackage
+        try {
+            votePackage = JSON.parse(serializedPackage)
+        }
+        catch (err) {
+            throw new Error("Invalid vote package")
+        }
+        return new VotePackage(params, votePackage)
+    }
+}
@@ -0,0 +1,84 @@
+import { TokenStorageProofContractMethods } from "../../lib/index"
+import { Contract, ContractFactory } from "ethers"
+import { getAccounts, TestAccount } from "../utils"
+
+import { abi as tokenStorageProofAbi } from "../../build/token-storage-proof.json"
+const solc = require("solc")
+
+// Minimal token, where the deployer holds the whole supply
+const dummyErc20Contract = `
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.6.0;
+
+contract ERC20 {
+    mapping (address => uint256) private _balances;
+    uint256 private _totalSupply;
+
+    constructor () public {
+        _balances[msg.sender] = 1000000000000000000;
+        _totalSupply = 1000000000000000000;
+    }
+    function totalSupply() public view returns (uint256) {
+        return _totalSupply;
+    }
+    function balanceOf(address account) public view returns (uint256) {
+        return _balances[account];
+    }
+}
+`
+
+// BUILDER
+export default class Erc20Builder {
+    accounts: TestAccount[]
+
+    holderAccount: TestAccount
+    tokenStorageProofAddress: string
+
+    constructor() {
+        this.accounts = getAccounts()
+        this.holderAccount = this.accounts[0]
+    }
+
+    async build(): Promise<Contract> {
+        const output = solc.compile(JSON.stringify({
+            language: "Solidity",
+            sources: { "dummy.sol": { content: dummyErc20Contract } },
+            settings: { outputSelection: { "*": { "*": ["*"] } } }
+        }))
+        const { contracts } = JSON.parse(output)
+        const erc20Abi = contracts["dummy.sol"].ERC20.abi
+        const erc20Bytecode = contracts["dummy.sol"].ERC20.evm.bytecode.object
+
+        const tokenFactory = new ContractFactory(erc20Abi, erc20Bytecode, this.holderAccount.wallet)
+        const tokenInstance = await tokenFactory.deploy() as Contract
+
+        if (this.tokenStorageProofAddress) {
+            const proofsInstance = new Contract(this.tokenStorageProofAddress, tokenStorageProofAbi, this.holderAccount.wallet) as Contract & TokenStorageProofContractMethods
+            const tx = await proofsInstance.registerToken(
+                tokenInstance.address,
+                0,
+                await proofsInstance.provider.getBlockNumber(),
+                Buffer.from("00000000000000000000000000000000000000000000000000", "hex"),
+                Buffer.from("000000000000000000000000000000000000000000000000000000", "hex"),
+                Buffer.from("0000000000000000000000000000000000000000000000000000000000", "hex")
+            )
+            await tx.wait()
+        }
+
+        return tokenInstance
+    }
+
+    // custom modifiers
+    withHolderAccount(holderAccount: TestAccount) {
+        if (!holderAccount) throw new Error("Empty holderAccount")
+
+        this.holderAccount = holderAccount
+        return this
+    }
+    /** Registers the token on the given Token Storage Proof instance */
+    withTokenStorageProof(tokenStorageProofAddress: string) {
+        this.tokenStorageProofAddress = tokenStorageProofAddress
+        return this
+    }
+}
@@ -1,4 +1,4 @@
-import { ProcessContractMethods, ProcessEnvelopeType, ProcessMode, IProcessEnvelopeType, IProcessMode, NamespaceContractMethods, ProcessContractParameters, IProcessCensusOrigin, ProcessCensusOrigin } from "../../lib/index"
+import { ProcessContractMethods, ProcessEnvelopeType, ProcessMode, IProcessEnvelopeType, IProcessMode, NamespaceContractMethods, ProcessContractParameters, IProcessCensusOrigin, ProcessCensusOrigin, IProcessCreateParams } from "../../lib/index"
 import { Contract, ContractFactory } from "ethers"
 import { getAccounts, TestAccount } from "../utils"
 import NamespaceBuilder from "./namespace"
@@ -225,8 +225,8 @@ export default class ProcessBuilder {
 
     // STATIC
 
-    static createDefaultProcess(contractInstance: Contract & ProcessContractMethods) {
-        const params = ProcessContractParameters.fromParams({
+    static defaultParams(): IProcessCreateParams {
+        return {
             mode: DEFAULT_PROCESS_MODE,
             envelopeType: DEFAULT_ENVELOPE_TYPE,
             censusOrigin: DEFAULT_CENSUS_ORIGIN,
@@ -243,7 +243,20 @@ export default class ProcessBuilder {
             costExponent: DEFAULT_COST_EXPONENT,
             namespace: DEFAULT_NAMESPACE,
             paramsSignature: DEFAULT_PARAMS_SIGNATURE
-        }).toContractParams()
+        }
+    }
+
+    /**
+     * Returns the default parameters, overridden by `params`, wrapped as `ProcessContractParameters`.
+     * `fields` sets the values that only come from the contract (status, questionIndex, etc).
+     */
+    static defaultContractParams(params: Partial<IProcessCreateParams> = {}, fields: Partial<ProcessContractParameters> = {}): ProcessContractParameters {
+        const result = ProcessContractParameters.fromParams({ ...ProcessBuilder.defaultParams(), ...params })
+        return Object.assign(result, fields)
+    }
+
+    static createDefaultProcess(contractInstance: Contract & ProcessContractMethods) {
+        const params = ProcessContractParameters.fromParams(ProcessBuilder.defaultParams()).toContractParams()
         return contractInstance.newProcess(...params).then(tx => tx.wait())
     }
 }
@@ -0,0 +1,123 @@
+import "mocha" // using @types/mocha
+import { expect } from "chai"
+import { addCompletionHooks } from "../utils/mocha-hooks"
+import { getAccounts, TestAccount } from "../utils"
+import { CensusCA, computeCensusCADigest, ProcessCensusOrigin, ProcessClient, ProcessContractMethods } from "../../lib"
+import { constants, Contract, utils, Wallet } from "ethers"
+
+import ProcessBuilder from "../builders/process"
+
+let accounts: TestAccount[]
+let entityAccount: TestAccount
+let contractInstance: Contract & ProcessContractMethods
+
+const processId = "0x" + "12".repeat(32)
+const voter = new Wallet("0x" + "01".padStart(64, "0"))
+
+addCompletionHooks()
+
+describe("Certification Authority census", () => {
+    it("should generate and wrap key pairs", () => {
+        const ca = CensusCA.random()
+        expect(ca.privateKey).to.match(/^0x[0-9a-f]{64}$/)
+        expect(ca.publicKey).to.match(/^0x0[23][0-9a-f]{64}$/)
+        expect(ca.censusRoot).to.eq(ca.publicKey)
+        expect(ca.censusOrigin.value).to.eq(ProcessCensusOrigin.OFF_CHAIN_CA)
+
+        expect(new CensusCA(ca.privateKey).publicKey).to.eq(ca.publicKey)
+        expect(CensusCA.random().publicKey).to.not.eq(ca.publicKey)
+
+        expect(() => new CensusCA("0x1234")).to.throw("Invalid private key")
+        expect(() => new CensusCA(null)).to.throw("Invalid private key")
+    })
+
+    it("should tell whether a census root is a valid public key", () => {
+        const ca = CensusCA.random()
+        expect(CensusCA.isValidCensusRoot(ca.censusRoot)).to.eq(true)
+        expect(CensusCA.isValidCensusRoot(utils.computePublicKey(ca.censusRoot, false))).to.eq(true)
+        expect(CensusCA.isValidCensusRoot("0x1234")).to.eq(false)
+        expect(CensusCA.isValidCensusRoot("0x" + "12".repeat(32))).to.eq(false)
+        expect(CensusCA.isValidCensusRoot(null)).to.eq(false)
+    })
+
+    it("should issue bundles that can be verified offline", () => {
+        const ca = CensusCA.random()
+
+        const bundle = ca.issue(processId, voter.address)
+        expect(bundle.processId).to.eq(processId)
+        expect(bundle.voter).to.eq(voter.address)
+        expect(bundle.weight).to.eq("1")
+        expect(utils.isHexString(bundle.signature, 65)).to.eq(true)
+
+        expect(CensusCA.verify(ca.censusRoot, bundle)).to.eq(true)
+        expect(CensusCA.verify(ca.censusRoot, bundle, processId)).to.eq(true)
+        expect(CensusCA.verify(ca.censusRoot, JSON.parse(JSON.stringify(bundle)), processId.toUpperCase().replace("0X", "0x"))).to.eq(true)
+        expect(CensusCA.verify(utils.computePublicKey(ca.censusRoot, false), bundle)).to.eq(true)
+
+        const digest = computeCensusCADigest(processId, voter.address, 1)
+        expect(utils.recoverAddress(digest, bundle.signature)).to.eq(utils.computeAddress(ca.publicKey))
+
+        // Public keys
+        expect(ca.issue(processId, voter.publicKey).voter).to.eq(voter.address)
+        expect(ca.issue(processId, utils.computePublicKey(voter.publicKey, true)).voter).to.eq(voter.address)
+        expect(ca.issue(processId, voter.address.toLowerCase()).voter).to.eq(voter.address)
+
+        // Weights
+        const weighted = ca.issue(processId, voter.address, "1000000000000000000")
+        expect(weighted.weight).to.eq("1000000000000000000")
+        expect(CensusCA.verify(ca.censusRoot, weighted)).to.eq(true)
+
+        const bundles = ca.issueAll(processId, [voter.address, { voter: accountAddress(2), weight: 5 }])
+        expect(bundles.map(item => item.weight)).to.deep.eq(["1", "5"])
+        expect(bundles.every(item => CensusCA.verify(ca.censusRoot, item, processId))).to.eq(true)
+    })
+
+    it("should reject invalid or tampered bundles", () => {
+        const ca = CensusCA.random()
+        const otherCA = CensusCA.random()
+        const bundle = ca.issue(processId, voter.address)
+
+        expect(CensusCA.verify(otherCA.censusRoot, bundle)).to.eq(false)
+        expect(CensusCA.verify(ca.censusRoot, bundle, "0x" + "34".repeat(32))).to.eq(false)
+        expect(CensusCA.verify(ca.censusRoot, { ...bundle, processId: "0x" + "34".repeat(32) })).to.eq(false)
+        expect(CensusCA.verify(ca.censusRoot, { ...bundle, voter: accountAddress(2) })).to.eq(false)
+        expect(CensusCA.verify(ca.censusRoot, { ...bundle, weight: "2" })).to.eq(false)
+        expect(CensusCA.verify(ca.censusRoot, { ...bundle, signature: otherCA.issue(processId, voter.address).signature })).to.eq(false)
+        expect(CensusCA.verify(ca.censusRoot, { ...bundle, signature: "0x1234" })).to.eq(false)
+        expect(CensusCA.verify(ca.censusRoot, { ...bundle, voter: "0x1234" })).to.eq(false)
+        expect(CensusCA.verify(ca.censusRoot, null)).to.eq(false)
+        expect(() => CensusCA.verify("0x1234", bundle)).to.throw("Invalid censusRoot")
+
+        expect(() => ca.issue("0x1234", voter.address)).to.throw("Invalid processId")
+        expect(() => ca.issue(processId, "0x1234")).to.throw("Invalid voter")
+        expect(() => ca.issue(processId, "0x" + "12".repeat(32))).to.throw("Invalid voter")
+        expect(() => ca.issue(processId, voter.address, 0)).to.throw("Invalid weight")
+        expect(() => ca.issue(processId, voter.address, "abc")).to.throw("Invalid weight")
+        expect(() => ca.issue(processId, voter.address, constants.MaxUint256.add(1))).to.throw("Invalid weight")
+        expect(() => ca.issueAll(processId, null)).to.throw("Invalid voters")
+    })
+
+    it("should create OFF_CHAIN_CA processes with the CA public key as the census root", async () => {
+        accounts = getAccounts()
+        entityAccount = accounts[1]
+        contractInstance = await new ProcessBuilder().build(0)
+
+        const ca = CensusCA.random()
+        const client = new ProcessClient(contractInstance.address, entityAccount.wallet)
+        const newProcessId = await client.create({
+            ...ProcessBuilder.defaultParams(),
+            censusOrigin: ca.censusOrigin.value,
+            censusRoot: ca.censusRoot
+        })
+
+        const params = await client.getProcess(newProcessId)
+        expect(params.censusOrigin.isOffChainCA).to.eq(true)
+
+        const bundle = ca.issue(newProcessId, voter.address)
+        expect(CensusCA.verify(params.censusRoot, bundle, newProcessId)).to.eq(true)
+    }).timeout(10000)
+})
+
+function accountAddress(idx: number): string {
+    return new Wallet("0x" + idx.toString(16).padStart(64, "0")).address
+}
@@ -0,0 +1,117 @@
+import "mocha" // using @types/mocha
+import { expect } from "chai"
+import { addCompletionHooks } from "../utils/mocha-hooks"
+import { CENSUS_TREE_FORMAT, CENSUS_TREE_FORMAT_VERSION, CensusTree, ProcessCensusOrigin } from "../../lib"
+import { utils, Wallet } from "ethers"
+
+addCompletionHooks()
+
+const publicKeys = [1, 2, 3, 4, 5, 6, 7].map(i => new Wallet("0x" + i.toString(16).padStart(64, "0")).publicKey)
+
+describe("Census tree", () => {
+    it("should build a non-weighted census", () => {
+        const tree = CensusTree.build(publicKeys)
+
+        expect(tree.weighted).to.eq(false)
+        expect(tree.censusOrigin.value).to.eq(ProcessCensusOrigin.OFF_CHAIN_TREE)
+        expect(tree.size).to.eq(7)
+        expect(tree.root).to.match(/^0x[0-9a-f]{64}$/)
+        expect(tree.entries.every(entry => entry.weight == "1")).to.eq(true)
+
+        // Order and key format do not matter
+        const compressedKeys = publicKeys.map(key => utils.computePublicKey(key, true))
+        expect(CensusTree.build(compressedKeys.slice().reverse()).root).to.eq(tree.root)
+        expect(CensusTree.build(tree.entries.map(entry => entry.publicKey)).root).to.eq(tree.root)
+
+        expect(CensusTree.build(publicKeys.slice(1)).root).to.not.eq(tree.root)
+    })
+
+    it("should build a weighted census", () => {
+        const tree = CensusTree.build(publicKeys.map((publicKey, i) => ({ publicKey, weight: (i + 1) * 10 })))
+
+        expect(tree.weighted).to.eq(true)
+        expect(tree.censusOrigin.value).to.eq(ProcessCensusOrigin.OFF_CHAIN_TREE_WEIGHTED)
+        expect(tree.entries.map(entry => entry.weight).sort()).to.deep.eq(["10", "20", "30", "40", "50", "60", "70"])
+
+        const otherTree = CensusTree.build(publicKeys.map((publicKey, i) => ({ publicKey, weight: i == 0 ? 11 : (i + 1) * 10 })))
+        expect(otherTree.root).to.not.eq(tree.root)
+
+        // Large weights
+        const largeTree = CensusTree.build([{ publicKey: publicKeys[0], weight: "1000000000000000000000" }])
+        expect(largeTree.entries[0].weight).to.eq("1000000000000000000000")
+
+        // Forced
+        const plainTree = CensusTree.build(publicKeys.map(publicKey => ({ publicKey, weight: 5 })), { weighted: false })
+        expect(plainTree.weighted).to.eq(false)
+        expect(plainTree.root).to.eq(CensusTree.build(publicKeys).root)
+        expect(() => CensusTree.build(publicKeys, { weighted: true })).to.throw("Invalid weight")
+    })
+
+    it("should fail on invalid voters", () => {
+        expect(() => CensusTree.build([])).to.throw("Empty census")
+        expect(() => CensusTree.build(null)).to.throw("Invalid voters")
+        expect(() => CensusTree.build(["0x1234"])).to.throw("Invalid public key")
+        expect(() => CensusTree.build(["0x" + "12".repeat(32)])).to.throw("Invalid public key")
+        expect(() => CensusTree.build([publicKeys[0], publicKeys[0]])).to.throw("Duplicate public key")
+        expect(() => CensusTree.build([{ publicKey: publicKeys[0], weight: 1 }, { publicKey: publicKeys[0], weight: 2 }])).to.throw("Duplicate public key")
+        expect(() => CensusTree.build([{ publicKey: publicKeys[0], weight: 0 }])).to.throw("Invalid weight")
+        expect(() => CensusTree.build([{ publicKey: publicKeys[0], weight: -1 }])).to.throw("Invalid weight")
+        expect(() => CensusTree.build([{ publicKey: publicKeys[0], weight: 1 }, { publicKey: publicKeys[1] }])).to.throw("Invalid weight")
+    })
+
+    it("should generate proofs that can be verified offline", () => {
+        for (let count = 1; count <= publicKeys.length; count++) {
+            const tree = CensusTree.build(publicKeys.slice(0, count).map((publicKey, i) => ({ publicKey, weight: i + 1 })))
+
+            for (let i = 0; i < count; i++) {
+                const proof = tree.getProof(publicKeys[i])
+                expect(proof.weight).to.eq(String(i + 1))
+                expect(CensusTree.verifyProof(tree.root, proof)).to.eq(true)
+                expect(CensusTree.verifyProof(tree.root, JSON.parse(JSON.stringify(proof)))).to.eq(true)
+
+                // Tampered
+                expect(CensusTree.verifyProof(tree.root, { ...proof, weight: String(i + 2) })).to.eq(false)
+                if (count > 1) {
+                    expect(CensusTree.verifyProof(tree.root, { ...proof, siblings: proof.siblings.slice(1) })).to.eq(false)
+                    expect(CensusTree.verifyProof(tree.root, { ...proof, publicKey: publicKeys[(i + 1) % count] })).to.eq(false)
+                }
+            }
+        }
+
+        const tree = CensusTree.build(publicKeys.slice(0, 3))
+        expect(tree.hasVoter(publicKeys[0])).to.eq(true)
+        expect(tree.hasVoter(publicKeys[5])).to.eq(false)
+        expect(tree.hasVoter("0x1234")).to.eq(false)
+        expect(() => tree.getProof(publicKeys[5])).to.throw("Not in the census")
+
+        expect(CensusTree.verifyProof(CensusTree.build(publicKeys).root, tree.getProof(publicKeys[0]))).to.eq(false)
+        expect(CensusTree.verifyProof(tree.root, null)).to.eq(false)
+        expect(CensusTree.verifyProof(tree.root, { ...tree.getProof(publicKeys[0]), publicKey: "0x1234" })).to.eq(false)
+        expect(() => CensusTree.verifyProof("0x1234", tree.getProof(publicKeys[0]))).to.throw("Invalid root")
+    })
+
+    it("should export and import the census", () => {
+        const tree = CensusTree.build(publicKeys.map((publicKey, i) => ({ publicKey, weight: i + 1 })))
+        const data = tree.export()
+
+        expect(data.format).to.eq(CENSUS_TREE_FORMAT)
+        expect(data.version).to.eq(CENSUS_TREE_FORMAT_VERSION)
+        expect(data.weighted).to.eq(true)
+        expect(data.root).to.eq(tree.root)
+        expect(data.entries).to.deep.eq(tree.entries)
+
+        const imported = CensusTree.import(JSON.stringify(data))
+        expect(imported.root).to.eq(tree.root)
+        expect(imported.weighted).to.eq(true)
+        expect(CensusTree.import(data).root).to.eq(tree.root)
+
+        const plainTree = CensusTree.build(publicKeys)
+        expect(CensusTree.import(JSON.stringify(plainTree.export())).weighted).to.eq(false)
+
+        expect(() => CensusTree.import("{")).to.throw("Invalid census data")
+        expect(() => CensusTree.import({ ...data, format: "other" })).to.throw("Invalid census data")
+        expect(() => CensusTree.import({ ...data, version: 2 })).to.throw("Unsupported version")
+        expect(() => CensusTree.import({ ...data, root: plainTree.root })).to.throw("The census root does not match")
+        expect(() => CensusTree.import({ ...data, entries: data.entries.slice(1) })).to.throw("The census root does not match")
+    })
+})
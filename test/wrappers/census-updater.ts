@@ -0,0 +1,161 @@
+import "mocha" // using @types/mocha
+import { expect } from "chai"
+import { addCompletionHooks } from "../utils/mocha-hooks"
+import { getAccounts, TestAccount } from "../utils"
+import { CensusTree, CensusUpdater, diffCensus, MemoryContentStorage, ProcessCensusOrigin, ProcessClient, ProcessContractMethods, ProcessMode, ProcessStatus } from "../../lib"
+import { Contract, utils, Wallet } from "ethers"
+
+import ProcessBuilder from "../builders/process"
+
+let accounts: TestAccount[]
+let entityAccount: TestAccount
+let contractInstance: Contract & ProcessContractMethods
+let client: ProcessClient
+let storage: MemoryContentStorage
+let updater: CensusUpdater
+
+const publicKeys = [1, 2, 3, 4, 5, 6].map(i => utils.computePublicKey(new Wallet("0x" + i.toString(16).padStart(64, "0")).publicKey, true))
+
+async function createProcess(census: CensusTree, mode = ProcessMode.make({ dynamicCensus: true, interruptible: true })): Promise<string> {
+    const censusUri = await storage.publish(JSON.stringify(census.export()))
+    return client.create({
+        ...ProcessBuilder.defaultParams(),
+        mode,
+        censusOrigin: census.censusOrigin.value,
+        censusRoot: census.root,
+        censusUri
+    })
+}
+
+addCompletionHooks()
+
+describe("Census updater", () => {
+    beforeEach(async () => {
+        accounts = getAccounts()
+        entityAccount = accounts[1]
+        contractInstance = await new ProcessBuilder().build(0)
+
+        client = new ProcessClient(contractInstance.address, entityAccount.wallet)
+        storage = new MemoryContentStorage()
+        updater = new CensusUpdater(client, storage)
+    })
+
+    it("should fail on invalid parameters", () => {
+        expect(() => new CensusUpdater(null, storage)).to.throw("Invalid client")
+        expect(() => new CensusUpdater(client, null)).to.throw("Invalid storage")
+    })
+
+    it("should store contents in memory", async () => {
+        const uri = await storage.publish("hello")
+        expect(uri).to.eq("memory://" + utils.keccak256(utils.toUtf8Bytes("hello")).substr(2))
+        expect(await storage.fetch(uri)).to.eq("hello")
+        expect(await storage.publish("hello")).to.eq(uri)
+
+        try {
+            await storage.fetch("memory://1234")
+            throw new Error("The request should have failed")
+        }
+        catch (err) {
+            expect(err.message).to.eq("Not found")
+        }
+    })
+
+    it("should compute the differences between two censuses", () => {
+        const before = CensusTree.build(publicKeys.slice(0, 4).map((publicKey, i) => ({ publicKey, weight: i + 1 })))
+        const after = CensusTree.build(publicKeys.slice(1, 5).map((publicKey, i) => ({ publicKey, weight: i == 0 ? 10 : i + 2 })))
+
+        expect(diffCensus(before, after)).to.deep.eq({ added: [publicKeys[4]], removed: [publicKeys[0]], reweighted: [publicKeys[1]] })
+        expect(diffCensus(before, before)).to.deep.eq({ added: [], removed: [], reweighted: [] })
+        expect(() => diffCensus(before, null)).to.throw("Invalid census")
+    })
+
+    it("should load the current census of a process", async () => {
+        const census = CensusTree.build(publicKeys.slice(0, 3))
+        const processId = await createProcess(census)
+
+        const loaded = await updater.getCensus(processId)
+        expect(loaded.root).to.eq(census.root)
+        expect(loaded.size).to.eq(3)
+
+        // Tampered tree
+        const otherUri = await storage.publish(JSON.stringify(CensusTree.build(publicKeys.slice(0, 2)).export()))
+        await client.setCensus(processId, census.root, otherUri)
+        try {
+            await updater.getCensus(processId)
+            throw new Error("The request should have failed")
+        }
+        catch (err) {
+            expect(err.message).to.eq("The census root does not match")
+        }
+    }).timeout(10000)
+
+    it("should apply the changes and update the census of the process", async () => {
+        const census = CensusTree.build(publicKeys.slice(0, 3).map(publicKey => ({ publicKey, weight: 5 })))
+        const processId = await createProcess(census)
+
+        const { params, census: newCensus, diff } = await updater.update(processId, {
+            add: [{ publicKey: publicKeys[3], weight: 2 }, { publicKey: publicKeys[0], weight: 8 }],
+            remove: [publicKeys[0], publicKeys[1]]
+        })
+        expect(diff).to.deep.eq({ added: [publicKeys[3]], removed: [publicKeys[1]], reweighted: [publicKeys[0]] })
+        expect(newCensus.weighted).to.eq(true)
+        expect(newCensus.size).to.eq(3)
+        expect(params.censusRoot).to.eq(newCensus.root)
+        expect(params.censusOrigin.value).to.eq(ProcessCensusOrigin.OFF_CHAIN_TREE_WEIGHTED)
+
+        const loaded = await updater.getCensus(processId)
+        expect(loaded.root).to.eq(newCensus.root)
+        expect(CensusTree.verifyProof(params.censusRoot, loaded.getProof(publicKeys[3]))).to.eq(true)
+        expect(loaded.hasVoter(publicKeys[1])).to.eq(false)
+    }).timeout(10000)
+
+    it("should reject invalid updates", async () => {
+        const census = CensusTree.build(publicKeys.slice(0, 3))
+        const processId = await createProcess(census)
+
+        const expectFailure = async (promise: Promise<any>, message: string) => {
+            try {
+                await promise
+                throw new Error("The request should have failed")
+            }
+            catch (err) {
+                expect(err.message).to.eq(message)
+            }
+        }
+
+        await expectFailure(updater.update(processId, null), "Invalid changes")
+        await expectFailure(updater.update(processId, { remove: [publicKeys[5]] }), "Not in the census")
+        await expectFailure(updater.update(processId, { add: [publicKeys[0]] }), "Duplicate public key")
+        await expectFailure(updater.update(processId, {}), "The census did not change")
+
+        const staticProcessId = await createProcess(census, ProcessMode.make({ interruptible: true }))
+        await expectFailure(updater.update(staticProcessId, { add: [publicKeys[5]] }), "Read-only census")
+
+        await client.setStatus(processId, ProcessStatus.ENDED)
+        await expectFailure(updater.update(processId, { add: [publicKeys[5]] }), "Process terminated")
+    }).timeout(15000)
+
+    it("should reconstruct the census history of a process", async () => {
+        const census = CensusTree.build(publicKeys.slice(0, 2))
+        const processId = await createProcess(census)
+        await createProcess(CensusTree.build(publicKeys.slice(2, 4)))
+
+        const { census: census2 } = await updater.update(processId, { add: [publicKeys[2]] })
+        const { census: census3 } = await updater.update(processId, { remove: [publicKeys[0]] })
+
+        updater.blockRange = 2
+        const history = await updater.getHistory(processId)
+        expect(history.map(entry => entry.event)).to.deep.eq(["NewProcess", "CensusUpdated", "CensusUpdated"])
+        expect(history.map(entry => entry.censusRoot)).to.deep.eq([census.root, census2.root, census3.root])
+        expect(history[0].blockNumber).to.be.lessThan(history[1].blockNumber)
+        expect(history[1].blockNumber).to.be.lessThan(history[2].blockNumber)
+        expect(history.every(entry => utils.isHexString(entry.transactionHash, 32))).to.eq(true)
+
+        const recent = await updater.getHistory(processId, history[1].blockNumber)
+        expect(recent.map(entry => entry.censusRoot)).to.deep.eq([census2.root, census3.root])
+
+        const trees = await Promise.all(history.map(entry => updater.fetchCensus(entry.censusRoot, entry.censusUri)))
+        expect(diffCensus(trees[0], trees[1]).added).to.deep.eq([publicKeys[2]])
+        expect(diffCensus(trees[1], trees[2]).removed).to.deep.eq([publicKeys[0]])
+    }).timeout(15000)
+})
@@ -0,0 +1,79 @@
+import "mocha" // using @types/mocha
+import { expect } from "chai"
+import { addCompletionHooks } from "../utils/mocha-hooks"
+import { ContentHashedUri } from "../../lib"
+import { utils } from "ethers"
+
+import { DEFAULT_CENSUS_TREE_CONTENT_HASHED_URI, DEFAULT_METADATA_CONTENT_HASHED_URI } from "../builders/process"
+
+addCompletionHooks()
+
+describe("Content hashed URI", () => {
+    it("should parse content hashed URI's", () => {
+        const cUri = new ContentHashedUri(DEFAULT_METADATA_CONTENT_HASHED_URI)
+        expect(cUri.uris).to.deep.eq(["ipfs://1234", "https://server/uri"])
+        expect(cUri.hash).to.eq("0987654321")
+        expect(cUri.hasHash).to.eq(true)
+        expect(cUri.toString()).to.eq(DEFAULT_METADATA_CONTENT_HASHED_URI)
+
+        expect(new ContentHashedUri(DEFAULT_CENSUS_TREE_CONTENT_HASHED_URI).hash).to.eq("1234567812345678")
+
+        const plain = new ContentHashedUri("ipfs://1234")
+        expect(plain.uris).to.deep.eq(["ipfs://1234"])
+        expect(plain.hash).to.eq(null)
+        expect(plain.hasHash).to.eq(false)
+        expect(plain.toString()).to.eq("ipfs://1234")
+    })
+
+    it("should normalize the values", () => {
+        expect(new ContentHashedUri(" ipfs://1234 , https://server/uri,ipfs://1234!0xABCDEF ").toString()).to.eq("ipfs://1234,https://server/uri!abcdef")
+        expect(new ContentHashedUri("ipfs://1234!ABCDEF").hash).to.eq("abcdef")
+        expect(new ContentHashedUri("ipfs://1234!sha3-Hash").hash).to.eq("sha3-Hash")
+    })
+
+    it("should list the alternative locations", () => {
+        const cUri = new ContentHashedUri("ipfs://1234,https://server/uri,https://other/uri!1234")
+        expect(cUri.getUris("https")).to.deep.eq(["https://server/uri", "https://other/uri"])
+        expect(cUri.getUris("ipfs://")).to.deep.eq(["ipfs://1234"])
+        expect(cUri.getUris("HTTPS:")).to.deep.eq(["https://server/uri", "https://other/uri"])
+        expect(cUri.getUris("http")).to.deep.eq([])
+
+        cUri.uris.push("https://third/uri")
+        expect(cUri.uris.length).to.eq(3)
+    })
+
+    it("should reject invalid values", () => {
+        for (let value of ["", "1234", "ipfs://", "ipfs://1234,", ",ipfs://1234", "ipfs://12 34", "ipfs://1234!", "ipfs://1234! ", "ipfs://1234!a b", "ipfs://1234!12!34", "://1234", null]) {
+            expect(ContentHashedUri.isValid(value)).to.eq(false)
+            expect(() => new ContentHashedUri(value)).to.throw()
+        }
+        expect(() => new ContentHashedUri("ipfs://1234!a b")).to.throw("Invalid content hash")
+        expect(() => new ContentHashedUri("1234")).to.throw("Invalid URI")
+        expect(() => new ContentHashedUri(null)).to.throw("Invalid content hashed URI")
+
+        expect(ContentHashedUri.isValid("ipfs://1234,https://server/uri?a=b&c=d#e!12")).to.eq(true)
+        expect(ContentHashedUri.isValid("memory://1234")).to.eq(true)
+    })
+
+    it("should build values and verify the content against the hash", () => {
+        const content = JSON.stringify({ title: "Hello" })
+        const hash = utils.keccak256(utils.toUtf8Bytes(content)).substr(2)
+        expect(ContentHashedUri.hashContent(content)).to.eq(hash)
+        expect(ContentHashedUri.hashContent(utils.toUtf8Bytes(content))).to.eq(hash)
+
+        const cUri = ContentHashedUri.build(["ipfs://1234", "https://server/uri"], content)
+        expect(cUri.toString()).to.eq("ipfs://1234,https://server/uri!" + hash)
+        expect(cUri.verify(content)).to.eq(true)
+        expect(cUri.verify(utils.toUtf8Bytes(content))).to.eq(true)
+        expect(cUri.verify(content + " ")).to.eq(false)
+        expect(new ContentHashedUri("ipfs://1234!sha3-hash").verify(content)).to.eq(false)
+        expect(new ContentHashedUri("ipfs://1234!0x" + hash.toUpperCase()).verify(content)).to.eq(true)
+
+        const plain = ContentHashedUri.build("ipfs://1234")
+        expect(plain.toString()).to.eq("ipfs://1234")
+        expect(() => plain.verify(content)).to.throw("No content hash")
+
+        expect(() => ContentHashedUri.build([])).to.throw("Invalid URI")
+        expect(() => ContentHashedUri.build("1234")).to.throw("Invalid URI")
+    })
+})
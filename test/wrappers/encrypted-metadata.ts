@@ -0,0 +1,166 @@
+import "mocha" // using @types/mocha
+import { expect } from "chai"
+import { addCompletionHooks } from "../utils/mocha-hooks"
+import {
+    checkMetadataEncryption, ContentHashedUri, decryptProcessMetadata, encryptProcessMetadata, ENCRYPTED_METADATA_ALGORITHM, generateMetadataKey,
+    getEncryptedMetadataUri, IProcessMetadata, isEncryptedMetadata, loadEncryptedProcessMetadata, makeEncryptedMetadataParams, ProcessContractParameters, ProcessMetadataBuilder,
+    ProcessMode, unwrapMetadataKey, wrapMetadataKey
+} from "../../lib"
+import { utils, Wallet } from "ethers"
+
+import ProcessBuilder from "../builders/process"
+
+addCompletionHooks()
+
+function makeMetadata(): IProcessMetadata {
+    return new ProcessMetadataBuilder()
+        .withTitle("Private assembly")
+        .addQuestion("Do you approve the budget?", ["No", "Yes"])
+        .build()
+}
+
+describe("Encrypted metadata", () => {
+    it("should encrypt and decrypt the metadata", () => {
+        const metadata = makeMetadata()
+        const key = generateMetadataKey()
+        expect(utils.isHexString(key, 32)).to.eq(true)
+        expect(generateMetadataKey()).to.not.eq(key)
+
+        const encrypted = encryptProcessMetadata(metadata, key)
+        expect(encrypted.algorithm).to.eq(ENCRYPTED_METADATA_ALGORITHM)
+        expect(utils.isHexString(encrypted.iv, 12)).to.eq(true)
+        expect(utils.isHexString(encrypted.tag, 16)).to.eq(true)
+        expect(JSON.stringify(encrypted)).to.not.include("Private assembly")
+        expect(isEncryptedMetadata(encrypted)).to.eq(true)
+        expect(isEncryptedMetadata(JSON.stringify(encrypted))).to.eq(true)
+
+        // Random IV
+        expect(encryptProcessMetadata(metadata, key).ciphertext).to.not.eq(encrypted.ciphertext)
+
+        expect(decryptProcessMetadata(encrypted, key)).to.deep.eq(metadata)
+        expect(decryptProcessMetadata(JSON.stringify(encrypted), key)).to.deep.eq(metadata)
+    })
+
+    it("should fail to decrypt with the wrong key or tampered data", () => {
+        const key = generateMetadataKey()
+        const encrypted = encryptProcessMetadata(makeMetadata(), key)
+
+        expect(() => decryptProcessMetadata(encrypted, generateMetadataKey())).to.throw("Could not decrypt the metadata")
+        const ciphertext = utils.arrayify(encrypted.ciphertext)
+        ciphertext[0] ^= 1
+        expect(() => decryptProcessMetadata({ ...encrypted, ciphertext: utils.hexlify(ciphertext) }, key)).to.throw("Could not decrypt the metadata")
+        expect(() => decryptProcessMetadata({ ...encrypted, tag: "0x" + "00".repeat(16) }, key)).to.throw("Could not decrypt the metadata")
+
+        expect(() => decryptProcessMetadata(encrypted, "0x1234")).to.throw("Invalid key")
+        expect(() => decryptProcessMetadata("{", key)).to.throw("Invalid encrypted metadata")
+        expect(() => decryptProcessMetadata(JSON.stringify(makeMetadata()), key)).to.throw("Invalid encrypted metadata")
+        expect(() => encryptProcessMetadata(makeMetadata(), "0x1234")).to.throw("Invalid key")
+        expect(() => encryptProcessMetadata({ ...makeMetadata(), questions: [] }, key)).to.throw("No questions")
+
+        expect(isEncryptedMetadata(JSON.stringify(makeMetadata()))).to.eq(false)
+        expect(isEncryptedMetadata("{")).to.eq(false)
+        expect(isEncryptedMetadata(null)).to.eq(false)
+    })
+
+    it("should share the key with the census members", () => {
+        const key = generateMetadataKey()
+        const members = [1, 2, 3].map(i => new Wallet("0x" + i.toString(16).padStart(64, "0")))
+        const outsider = new Wallet("0x" + "04".padStart(64, "0"))
+
+        const wrappedKeys = wrapMetadataKey(key, members.map(member => member.publicKey))
+        expect(wrappedKeys.length).to.eq(3)
+        expect(wrappedKeys[0].publicKey).to.eq(utils.computePublicKey(members[0].publicKey, true))
+        expect(JSON.stringify(wrappedKeys)).to.not.include(key.substr(2))
+
+        for (let i = 0; i < members.length; i++) {
+            expect(unwrapMetadataKey(wrappedKeys, members[i].privateKey)).to.eq(key)
+            expect(unwrapMetadataKey(JSON.parse(JSON.stringify(wrappedKeys[i])), members[i].privateKey)).to.eq(key)
+        }
+
+        expect(() => unwrapMetadataKey(wrappedKeys, outsider.privateKey)).to.throw("The metadata key is not available for the given private key")
+        expect(() => unwrapMetadataKey({ ...wrappedKeys[1], publicKey: wrappedKeys[0].publicKey }, members[0].privateKey)).to.throw("Could not decrypt the metadata key")
+        expect(() => unwrapMetadataKey(wrappedKeys, "0x1234")).to.throw("Invalid private key")
+        expect(() => wrapMetadataKey(key, ["0x1234"])).to.throw("Invalid public key")
+        expect(() => wrapMetadataKey(key, [members[0].privateKey])).to.throw("Invalid public key")
+        expect(() => wrapMetadataKey("0x1234", [members[0].publicKey])).to.throw("Invalid key")
+    })
+
+    it("should check the metadata content against the process mode", () => {
+        const key = generateMetadataKey()
+        const encrypted = encryptProcessMetadata(makeMetadata(), key)
+        const encryptedContent = JSON.stringify(encrypted)
+        const plainContent = JSON.stringify(makeMetadata())
+
+        const metadataUri = getEncryptedMetadataUri(encrypted, ["ipfs://1234", "https://server/metadata"])
+        expect(metadataUri).to.eq("ipfs://1234,https://server/metadata!" + utils.keccak256(utils.toUtf8Bytes(encryptedContent)).substr(2))
+
+        const encryptedParams = { ...ProcessBuilder.defaultParams(), mode: ProcessMode.make({ encryptedMetadata: true }), metadata: metadataUri }
+        expect(() => checkMetadataEncryption(encryptedParams, encryptedContent)).to.not.throw()
+        expect(() => checkMetadataEncryption(ProcessContractParameters.fromParams(encryptedParams), encryptedContent)).to.not.throw()
+        expect(() => checkMetadataEncryption(encryptedParams, plainContent)).to.throw("The metadata needs to be encrypted")
+        expect(() => checkMetadataEncryption(encryptedParams, JSON.stringify(encryptProcessMetadata(makeMetadata(), key))))
+            .to.throw("The content does not match the metadata hash")
+
+        const plainParams = { ...ProcessBuilder.defaultParams(), mode: ProcessMode.make({}) }
+        expect(() => checkMetadataEncryption(plainParams, plainContent)).to.not.throw()
+        expect(() => checkMetadataEncryption(plainParams, encryptedContent)).to.throw("The process mode does not include ENCRYPTED_METADATA")
+
+        expect(() => getEncryptedMetadataUri(makeMetadata() as any, "ipfs://1234")).to.throw("Invalid encrypted metadata")
+    })
+
+    it("should build the parameters of a process with encrypted metadata", () => {
+        const metadata = makeMetadata()
+        const key = generateMetadataKey()
+        const params = { ...ProcessBuilder.defaultParams(), mode: ProcessMode.make({ encryptedMetadata: true }) }
+
+        const result = makeEncryptedMetadataParams(params, metadata, key, ["ipfs://1234", "https://server/metadata"])
+        expect(result.params.metadata).to.eq("ipfs://1234,https://server/metadata!" + utils.keccak256(utils.toUtf8Bytes(result.content)).substr(2))
+        expect(result.params.mode).to.eq(params.mode)
+        expect(params.metadata).to.not.eq(result.params.metadata)
+        expect(decryptProcessMetadata(result.content, key)).to.deep.eq(metadata)
+        expect(() => checkMetadataEncryption(result.params, result.content)).to.not.throw()
+        expect(() => ProcessContractParameters.fromParams(result.params)).to.not.throw()
+
+        // Wrapped modes
+        expect(makeEncryptedMetadataParams({ ...params, mode: new ProcessMode(params.mode) }, metadata, key, "ipfs://1234").params.metadata).to.match(/^ipfs:\/\/1234!/)
+
+        expect(() => makeEncryptedMetadataParams({ ...params, mode: ProcessMode.make({}) }, metadata, key, "ipfs://1234"))
+            .to.throw("The process mode does not include ENCRYPTED_METADATA")
+        expect(() => makeEncryptedMetadataParams(params, { ...metadata, questions: [] }, key, "ipfs://1234")).to.throw("No questions")
+        expect(() => makeEncryptedMetadataParams(null, metadata, key, "ipfs://1234")).to.throw("Invalid parameters")
+    })
+
+    it("should load and decrypt the metadata of a process", async () => {
+        const metadata = makeMetadata()
+        const key = generateMetadataKey()
+        const encrypted = encryptProcessMetadata(metadata, key)
+        const contents: { [uri: string]: string } = {
+            "ipfs://1234": JSON.stringify(encrypted),
+            "ipfs://5678": JSON.stringify(metadata)
+        }
+        const fetcher = (uri: string) => Promise.resolve(contents[uri])
+
+        const metadataUri = getEncryptedMetadataUri(encrypted, "ipfs://1234")
+        expect(await loadEncryptedProcessMetadata(metadataUri, fetcher, key)).to.deep.eq(metadata)
+
+        const params = ProcessContractParameters.fromParams({ ...ProcessBuilder.defaultParams(), questionCount: 1, maxCount: 1, maxValue: 1 })
+        expect(await loadEncryptedProcessMetadata(metadataUri, fetcher, key, params)).to.deep.eq(metadata)
+
+        const expectFailure = async (promise: Promise<any>, message: string) => {
+            try {
+                await promise
+                throw new Error("The request should have failed")
+            }
+            catch (err) {
+                expect(err.message).to.eq(message)
+            }
+        }
+        await expectFailure(loadEncryptedProcessMetadata(metadataUri, fetcher, generateMetadataKey()), "Could not decrypt the metadata")
+        await expectFailure(loadEncryptedProcessMetadata(ContentHashedUri.build("ipfs://5678", contents["ipfs://5678"]).toString(), fetcher, key), "The metadata is not encrypted")
+        await expectFailure(loadEncryptedProcessMetadata("ipfs://5678", fetcher, key), "The URI has no content hash")
+        await expectFailure(loadEncryptedProcessMetadata("ipfs://5678", fetcher, key, null, { allowUnverified: true }), "The metadata is not encrypted")
+        await expectFailure(loadEncryptedProcessMetadata(ContentHashedUri.build("ipfs://0000", "").toString(), fetcher, key), "Could not fetch a valid copy of the metadata")
+        await expectFailure(loadEncryptedProcessMetadata(metadataUri, fetcher, key, ProcessContractParameters.fromParams(ProcessBuilder.defaultParams())),
+            "The amount of questions does not match questionCount")
+    })
+})
@@ -63,6 +63,47 @@ describe("Envelope Type wrapper", () => {
         expect(new ProcessEnvelopeType(ProcessEnvelopeType.UNIQUE_VALUES).hasUniqueValues).to.be.true
     })
 
+    it("Should convert from and to flags", () => {
+        for (let i = 0; i < 16; i++) {
+            const envelopeType = new ProcessEnvelopeType(i as any)
+            expect(ProcessEnvelopeType.fromFlags(envelopeType.toFlags()).value).to.eq(i)
+        }
+        expect(new ProcessEnvelopeType(ProcessEnvelopeType.SERIAL | ProcessEnvelopeType.ENCRYPTED_VOTES).toFlags()).to.deep.eq({
+            serial: true, anonymousVoters: false, encryptedVotes: true, uniqueValues: false
+        })
+        expect(ProcessEnvelopeType.fromFlags({ uniqueValues: true }).value).to.eq(ProcessEnvelopeType.UNIQUE_VALUES)
+    })
+
+    it("Should describe the flags that are set", () => {
+        const envelopeType = new ProcessEnvelopeType(ProcessEnvelopeType.SERIAL | ProcessEnvelopeType.ENCRYPTED_VOTES)
+        expect(envelopeType.flagNames).to.deep.eq(["SERIAL", "ENCRYPTED_VOTES"])
+        expect(envelopeType.toString()).to.eq("SERIAL | ENCRYPTED_VOTES")
+        expect(envelopeType.describe()).to.eq("Serial voting, Encrypted votes")
+
+        expect(new ProcessEnvelopeType(0).toString()).to.eq("NONE")
+        expect(new ProcessEnvelopeType(0).describe()).to.eq("Default envelope type")
+        expect(new ProcessEnvelopeType(15).toString()).to.eq("SERIAL | ANONYMOUS | ENCRYPTED_VOTES | UNIQUE_VALUES")
+    })
+
+    it("Should compare two envelope types", () => {
+        const envelopeType = new ProcessEnvelopeType(ProcessEnvelopeType.SERIAL | ProcessEnvelopeType.ENCRYPTED_VOTES)
+        expect(envelopeType.diff(ProcessEnvelopeType.ANONYMOUS | ProcessEnvelopeType.SERIAL)).to.deep.eq({ added: ["ANONYMOUS"], removed: ["ENCRYPTED_VOTES"] })
+        expect(envelopeType.diff(new ProcessEnvelopeType(0))).to.deep.eq({ added: [], removed: ["SERIAL", "ENCRYPTED_VOTES"] })
+        expect(envelopeType.diff(envelopeType)).to.deep.eq({ added: [], removed: [] })
+    })
+
+    it("Should serialize to JSON and back", () => {
+        for (let i = 0; i < 16; i++) {
+            const envelopeType = new ProcessEnvelopeType(i as any)
+            expect(ProcessEnvelopeType.fromJSON(JSON.parse(JSON.stringify(envelopeType))).value).to.eq(i)
+        }
+        expect(JSON.stringify({ envelopeType: new ProcessEnvelopeType(ProcessEnvelopeType.ANONYMOUS) })).to.eq('{"envelopeType":["ANONYMOUS"]}')
+        expect(ProcessEnvelopeType.fromJSON(ProcessEnvelopeType.SERIAL).value).to.eq(ProcessEnvelopeType.SERIAL)
+
+        expect(() => ProcessEnvelopeType.fromJSON(["SERIAL", "AUTO_START"])).to.throw("Invalid envelope type")
+        expect(() => ProcessEnvelopeType.fromJSON(null)).to.throw("Invalid envelope type")
+    })
+
     it("Should fail for invalid types", () => {
         for (let i = 16; i < 256; i++) {
             expect(() => { new ProcessEnvelopeType(i as any) }).to.throw
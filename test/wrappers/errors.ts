@@ -0,0 +1,130 @@
+import "mocha" // using @types/mocha
+import { expect } from "chai"
+import { addCompletionHooks } from "../utils/mocha-hooks"
+import { getAccounts, TestAccount } from "../utils"
+import {
+    ContractError, getRevertReason, InvalidArgumentError, InvalidEntityError, NotContractOwnerError, NotInterruptibleError, NotOracleError,
+    parseContractError, ProcessClient, ProcessContractMethods, ProcessMode, ProcessNotFoundError, ProcessResults, ProcessStateError,
+    ProcessStatus, ProcessTerminatedError, ReadOnlyCensusError, TokenStorageProofContractMethods, UnauthorizedError
+} from "../../lib"
+import { Contract, utils } from "ethers"
+
+import ProcessBuilder, { DEFAULT_RESULTS_HEIGHT, DEFAULT_RESULTS_TALLY } from "../builders/process"
+import NamespaceBuilder from "../builders/namespace"
+import { abi as tokenStorageProofAbi } from "../../build/token-storage-proof.json"
+
+let accounts: TestAccount[]
+let entityAccount: TestAccount
+let randomAccount: TestAccount
+let contractInstance: Contract & ProcessContractMethods
+
+function expectRejection(promise: Promise<any>): Promise<Error> {
+    return promise.then(() => {
+        throw new Error("The promise should have been rejected")
+    }, err => parseContractError(err))
+}
+
+addCompletionHooks()
+
+describe("Contract errors", () => {
+    beforeEach(async () => {
+        accounts = getAccounts()
+        entityAccount = accounts[1]
+        randomAccount = accounts[2]
+
+        contractInstance = await new ProcessBuilder().build(0)
+    })
+
+    it("should extract the revert reason from any error format", () => {
+        const data = "0x08c379a0" + utils.defaultAbiCoder.encode(["string"], ["Not oracle"]).substr(2)
+
+        expect(getRevertReason({ data })).to.eq("Not oracle")
+        expect(getRevertReason({ error: { data } })).to.eq("Not oracle")
+        expect(getRevertReason({ error: { data: { data } } })).to.eq("Not oracle")
+        expect(getRevertReason({ body: JSON.stringify({ jsonrpc: "2.0", error: { code: 3, message: "execution reverted: Not oracle", data } }) })).to.eq("Not oracle")
+        expect(getRevertReason({ error: { message: "VM Exception while processing transaction: revert Not oracle" } })).to.eq("Not oracle")
+        expect(getRevertReason(new Error("VM Exception while processing transaction: reverted with reason string 'Not oracle'"))).to.eq("Not oracle")
+        expect(getRevertReason({ results: { "0x1234": { error: "revert", reason: "Not oracle" } } })).to.eq("Not oracle")
+        expect(getRevertReason({ code: "CALL_EXCEPTION", errorArgs: ["Not oracle"] })).to.eq("Not oracle")
+
+        expect(getRevertReason(new Error("Network error"))).to.eq(null)
+        expect(getRevertReason({ code: "CALL_EXCEPTION", reason: "missing revert data in call exception", data: "0x" })).to.eq(null)
+        expect(getRevertReason(null)).to.eq(null)
+    })
+
+    it("should map the revert reasons to typed errors", () => {
+        const cause = { error: { message: "VM Exception while processing transaction: revert Not found: Try on predecessor" } }
+        const error = parseContractError(cause) as ProcessNotFoundError
+        expect(error).to.be.instanceOf(ProcessNotFoundError)
+        expect(error).to.be.instanceOf(ContractError)
+        expect(error).to.be.instanceOf(Error)
+        expect(error.tryPredecessor).to.eq(true)
+        expect(error.reason).to.eq("Not found: Try on predecessor")
+        expect(error.message).to.eq("Not found: Try on predecessor")
+        expect(error.name).to.eq("ProcessNotFoundError")
+        expect(error.cause).to.eq(cause)
+
+        expect((parseContractError({ error: { message: "VM Exception while processing transaction: revert Not found" } }) as ProcessNotFoundError).tryPredecessor).to.eq(false)
+        expect(parseContractError(new Error("revert Not oracle"))).to.be.instanceOf(NotOracleError)
+        expect(parseContractError(new Error("revert Not oracle"))).to.be.instanceOf(UnauthorizedError)
+        expect(parseContractError(new Error("revert Process terminated"))).to.be.instanceOf(ProcessTerminatedError)
+        expect(parseContractError(new Error("revert Process terminated"))).to.be.instanceOf(ProcessStateError)
+        expect(parseContractError(new Error("revert onlyContractOwner"))).to.be.instanceOf(NotContractOwnerError)
+
+        const unknown = parseContractError(new Error("revert Something else")) as ContractError
+        expect(unknown.constructor).to.eq(ContractError)
+        expect(unknown.reason).to.eq("Something else")
+
+        const other = new Error("Network error")
+        expect(parseContractError(other)).to.eq(other)
+        expect(parseContractError("timeout")).to.be.instanceOf(Error)
+        expect(parseContractError("timeout").message).to.eq("timeout")
+    })
+
+    it("should parse the errors of the Processes contract", async () => {
+        const entityClient = new ProcessClient(contractInstance.address, entityAccount.wallet)
+        const randomInstance = contractInstance.connect(randomAccount.wallet) as Contract & ProcessContractMethods
+        const processId = await entityClient.create({ ...ProcessBuilder.defaultParams(), mode: ProcessMode.make({}) })
+
+        // call
+        let error = await expectRejection(randomInstance.callStatic.setStatus("0x" + "12".repeat(32), ProcessStatus.READY))
+        expect(error).to.be.instanceOf(ProcessNotFoundError)
+        expect((error as ProcessNotFoundError).tryPredecessor).to.eq(false)
+
+        // estimateGas
+        error = await expectRejection(randomInstance.setStatus(processId, ProcessStatus.READY))
+        expect(error).to.be.instanceOf(InvalidEntityError)
+
+        // transaction
+        error = await expectRejection(randomInstance.setStatus(processId, ProcessStatus.READY, { gasLimit: 500000 }))
+        expect(error).to.be.instanceOf(InvalidEntityError)
+
+        error = await expectRejection(randomInstance.setResults(processId, DEFAULT_RESULTS_TALLY, DEFAULT_RESULTS_HEIGHT))
+        expect(error).to.be.instanceOf(NotOracleError)
+
+        error = await expectRejection(entityClient.setCensus(processId, "0x1234", "ipfs://1234"))
+        expect(error).to.be.instanceOf(ReadOnlyCensusError)
+
+        error = await expectRejection(entityClient.setStatus(processId, ProcessStatus.ENDED))
+        expect(error).to.be.instanceOf(NotInterruptibleError)
+
+        await entityClient.setStatus(processId, ProcessStatus.READY)
+        error = await expectRejection(entityClient.setStatus(processId, ProcessStatus.PAUSED))
+        expect(error).to.be.instanceOf(NotInterruptibleError)
+
+        error = await expectRejection(entityClient.setResults(processId, new ProcessResults(DEFAULT_RESULTS_TALLY, DEFAULT_RESULTS_HEIGHT)))
+        expect(error).to.be.instanceOf(NotOracleError)
+    }).timeout(10000)
+
+    it("should parse the errors of the Namespaces and Token Storage Proof contracts", async () => {
+        const namespaceInstance = await new NamespaceBuilder().build()
+
+        let error = await expectRejection(namespaceInstance.connect(randomAccount.wallet).addOracle(1, randomAccount.address))
+        expect(error).to.be.instanceOf(NotContractOwnerError)
+
+        const proofsInstance = new Contract(await contractInstance.tokenStorageProofAddress(), tokenStorageProofAbi, entityAccount.wallet) as Contract & TokenStorageProofContractMethods
+        error = await expectRejection(proofsInstance.registerToken(randomAccount.address, 0, 1, Buffer.from("00", "hex"), Buffer.from("00", "hex"), Buffer.from("00", "hex")))
+        expect(error).to.be.instanceOf(InvalidArgumentError)
+        expect((error as ContractError).reason).to.eq("The address must be a contract")
+    }).timeout(10000)
+})
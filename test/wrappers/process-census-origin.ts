@@ -176,6 +176,19 @@ describe("Process Census Origin wrapper", () => {
         expect(pm.isMiniMe).to.eq(true)
     })
 
+    it("should describe the census origin", () => {
+        expect(new ProcessCensusOrigin(ProcessCensusOrigin.OFF_CHAIN_TREE).toString()).to.eq("OFF_CHAIN_TREE")
+        expect(new ProcessCensusOrigin(ProcessCensusOrigin.OFF_CHAIN_TREE).describe()).to.eq("Off-chain Merkle tree")
+        expect(new ProcessCensusOrigin(ProcessCensusOrigin.OFF_CHAIN_TREE_WEIGHTED).toString()).to.eq("OFF_CHAIN_TREE_WEIGHTED")
+        expect(new ProcessCensusOrigin(ProcessCensusOrigin.OFF_CHAIN_CA).toString()).to.eq("OFF_CHAIN_CA")
+        expect(new ProcessCensusOrigin(ProcessCensusOrigin.ERC20).toString()).to.eq("ERC20")
+        expect(new ProcessCensusOrigin(ProcessCensusOrigin.ERC20).describe()).to.eq("ERC20 token holders")
+        expect(new ProcessCensusOrigin(ProcessCensusOrigin.ERC721).toString()).to.eq("ERC721")
+        expect(new ProcessCensusOrigin(ProcessCensusOrigin.ERC1155).toString()).to.eq("ERC1155")
+        expect(new ProcessCensusOrigin(ProcessCensusOrigin.ERC777).toString()).to.eq("ERC777")
+        expect(new ProcessCensusOrigin(ProcessCensusOrigin.MINI_ME).toString()).to.eq("MINI_ME")
+    })
+
     it("should fail on invalid process status", () => {
         expect(() => new ProcessCensusOrigin(0 as IProcessCensusOrigin)).to.throw
         for (let i = 4; i < 11; i++) expect(() => new ProcessCensusOrigin(i as IProcessCensusOrigin)).to.throw
@@ -0,0 +1,102 @@
+import "mocha" // using @types/mocha
+import { expect } from "chai"
+import { addCompletionHooks } from "../utils/mocha-hooks"
+import { getAccounts, TestAccount } from "../utils"
+import { ProcessClient, ProcessContractMethods, ProcessEnvelopeType, ProcessMode, ProcessResults, ProcessStatus, IProcessCreateParams } from "../../lib"
+import { Contract } from "ethers"
+
+import ProcessBuilder, { DEFAULT_METADATA_CONTENT_HASHED_URI, DEFAULT_CENSUS_ROOT, DEFAULT_CENSUS_TREE_CONTENT_HASHED_URI, DEFAULT_START_BLOCK, DEFAULT_BLOCK_COUNT, DEFAULT_QUESTION_COUNT, DEFAULT_MAX_COUNT, DEFAULT_MAX_VALUE, DEFAULT_NAMESPACE, DEFAULT_PARAMS_SIGNATURE, DEFAULT_CHAIN_ID, DEFAULT_RESULTS_TALLY, DEFAULT_RESULTS_HEIGHT } from "../builders/process"
+
+let accounts: TestAccount[]
+let entityAccount: TestAccount
+let authorizedOracleAccount: TestAccount
+let contractInstance: Contract & ProcessContractMethods
+
+const defaultParams: IProcessCreateParams = {
+    ...ProcessBuilder.defaultParams(),
+    mode: ProcessMode.make({ interruptible: true, dynamicCensus: true }),
+    envelopeType: ProcessEnvelopeType.make({ serial: true })
+}
+
+addCompletionHooks()
+
+describe("Process client", () => {
+    beforeEach(async () => {
+        accounts = getAccounts()
+        entityAccount = accounts[1]
+        authorizedOracleAccount = accounts[4]
+
+        contractInstance = await new ProcessBuilder().withOracle(authorizedOracleAccount.address).build(0)
+    })
+
+    it("should fail attaching without an address or a signer", () => {
+        expect(() => new ProcessClient("", entityAccount.wallet)).to.throw("Invalid contract address")
+        expect(() => new ProcessClient(contractInstance.address, null)).to.throw("Invalid signer or provider")
+    })
+
+    it("should create a process and resolve with its ID", async () => {
+        const client = new ProcessClient(contractInstance.address, entityAccount.wallet)
+
+        const processId1 = await client.create(defaultParams)
+        expect(processId1).to.eq(await contractInstance.getProcessId(entityAccount.address, 0, DEFAULT_NAMESPACE, DEFAULT_CHAIN_ID))
+
+        const processId2 = await client.create(defaultParams)
+        expect(processId2).to.eq(await contractInstance.getProcessId(entityAccount.address, 1, DEFAULT_NAMESPACE, DEFAULT_CHAIN_ID))
+    }).timeout(8000)
+
+    it("should retrieve the parsed process parameters", async () => {
+        const client = new ProcessClient(contractInstance.address, entityAccount.wallet)
+        const processId = await client.create(defaultParams)
+
+        const params = await client.getProcess(processId)
+        expect(params.processId).to.eq(processId)
+        expect(params.mode.value).to.eq(defaultParams.mode)
+        expect(params.envelopeType.value).to.eq(defaultParams.envelopeType)
+        expect(params.censusOrigin.value).to.eq(defaultParams.censusOrigin)
+        expect(params.entityAddress).to.eq(entityAccount.address)
+        expect(params.metadata).to.eq(DEFAULT_METADATA_CONTENT_HASHED_URI)
+        expect(params.censusRoot).to.eq(DEFAULT_CENSUS_ROOT)
+        expect(params.censusUri).to.eq(DEFAULT_CENSUS_TREE_CONTENT_HASHED_URI)
+        expect(params.startBlock).to.eq(DEFAULT_START_BLOCK)
+        expect(params.blockCount).to.eq(DEFAULT_BLOCK_COUNT)
+        expect(params.status.value).to.eq(ProcessStatus.PAUSED)
+        expect(params.questionIndex).to.eq(0)
+        expect(params.questionCount).to.eq(DEFAULT_QUESTION_COUNT)
+        expect(params.maxCount).to.eq(DEFAULT_MAX_COUNT)
+        expect(params.maxValue).to.eq(DEFAULT_MAX_VALUE)
+        expect(params.namespace).to.eq(DEFAULT_NAMESPACE)
+        expect(params.paramsSignature).to.eq(DEFAULT_PARAMS_SIGNATURE)
+
+        expect(await client.getResults(processId)).to.eq(null)
+    }).timeout(8000)
+
+    it("should update the status, the question index and the census", async () => {
+        const client = new ProcessClient(contractInstance.address, entityAccount.wallet)
+        const processId = await client.create(defaultParams)
+
+        let params = await client.setStatus(processId, ProcessStatus.READY)
+        expect(params.status.value).to.eq(ProcessStatus.READY)
+
+        params = await client.incrementQuestionIndex(processId)
+        expect(params.questionIndex).to.eq(1)
+
+        params = await client.setCensus(processId, "0x1234", "ipfs://census")
+        expect(params.censusRoot).to.eq("0x1234")
+        expect(params.censusUri).to.eq("ipfs://census")
+
+        params = await client.setStatus(processId, new ProcessStatus(ProcessStatus.ENDED))
+        expect(params.status.value).to.eq(ProcessStatus.ENDED)
+    }).timeout(10000)
+
+    it("should publish the results as an oracle", async () => {
+        const entityClient = new ProcessClient(contractInstance.address, entityAccount.wallet)
+        const processId = await entityClient.create(defaultParams)
+
+        const oracleClient = new ProcessClient(contractInstance.address, authorizedOracleAccount.wallet)
+        const results = await oracleClient.setResults(processId, new ProcessResults(DEFAULT_RESULTS_TALLY, DEFAULT_RESULTS_HEIGHT))
+
+        expect(results.tally).to.deep.eq(DEFAULT_RESULTS_TALLY)
+        expect(results.height).to.eq(DEFAULT_RESULTS_HEIGHT)
+        expect((await entityClient.getProcess(processId)).status.value).to.eq(ProcessStatus.RESULTS)
+    }).timeout(8000)
+})
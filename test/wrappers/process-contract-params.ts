@@ -1,7 +1,7 @@
 import "mocha" // using @types/mocha
 import { expect } from "chai"
 import { addCompletionHooks } from "../utils/mocha-hooks"
-import { ProcessContractParameters } from "../../lib"
+import { PROCESS_PARAMS_JSON_VERSION, ProcessContractParameters, ProcessMode, ProcessResults, ProcessStatus } from "../../lib"
 import { BigNumber } from "ethers"
 
 addCompletionHooks()
@@ -13,9 +13,9 @@ describe("Process contract parameter wrapper", () => {
             envelopeType: 2,
             censusOrigin: 3,
             tokenAddress: "4",
-            metadata: "56",
+            metadata: "ipfs://56",
             censusRoot: "78",
-            censusUri: "90",
+            censusUri: "ipfs://90",
             startBlock: 11,
             blockCount: 22,
             questionCount: 33,
@@ -33,9 +33,9 @@ describe("Process contract parameter wrapper", () => {
         expect(params1[0][1]).to.eq(2)
         expect(params1[0][2]).to.eq(3)
         expect(params1[1]).to.eq("4")
-        expect(params1[2][0]).to.eq("56")
+        expect(params1[2][0]).to.eq("ipfs://56")
         expect(params1[2][1]).to.eq("78")
-        expect(params1[2][2]).to.eq("90")
+        expect(params1[2][2]).to.eq("ipfs://90")
         expect(params1[3][0]).to.eq(11)
         expect(params1[3][1]).to.eq(22)
         expect(params1[4][0]).to.eq(33)
@@ -53,9 +53,9 @@ describe("Process contract parameter wrapper", () => {
             envelopeType: 2,
             censusOrigin: 1,
             // tokenAddress
-            metadata: "65",
+            metadata: "ipfs://65",
             censusRoot: "87",
-            censusUri: "09",
+            censusUri: "ipfs://09",
             startBlock: 111,
             blockCount: 222,
             questionCount: 34,
@@ -73,9 +73,9 @@ describe("Process contract parameter wrapper", () => {
         expect(params2[0][1]).to.eq(2)
         expect(params2[0][2]).to.eq(1)
         expect(params2[1]).to.eq("0x0000000000000000000000000000000000000000")
-        expect(params2[2][0]).to.eq("65")
+        expect(params2[2][0]).to.eq("ipfs://65")
         expect(params2[2][1]).to.eq("87")
-        expect(params2[2][2]).to.eq("09")
+        expect(params2[2][2]).to.eq("ipfs://09")
         expect(params2[3][0]).to.eq(111)
         expect(params2[3][1]).to.eq(222)
         expect(params2[4][0]).to.eq(34)
@@ -90,6 +90,23 @@ describe("Process contract parameter wrapper", () => {
         expect(params2[8]).to.deep.eq({ gasLimit: 100 })
     })
 
+    it("should reject invalid metadata and censusUri values", () => {
+        const params = {
+            mode: 1, envelopeType: 0, censusOrigin: 1, metadata: "ipfs://56", censusRoot: "78", censusUri: "ipfs://90", startBlock: 11, blockCount: 22,
+            questionCount: 10, maxCount: 12, maxValue: 13, maxVoteOverwrites: 14, maxTotalCost: 15, costExponent: 16, namespace: 17, paramsSignature: "0x10"
+        }
+        expect(() => ProcessContractParameters.fromParams({ ...params, metadata: "ipfs://1234,https://server/uri!0987654321" })).to.not.throw()
+        expect(() => ProcessContractParameters.fromParams({ ...params, censusUri: "ipfs://1234!0x1234" })).to.not.throw()
+
+        expect(() => ProcessContractParameters.fromParams({ ...params, metadata: "56" })).to.throw("Invalid metadata")
+        expect(() => ProcessContractParameters.fromParams({ ...params, metadata: "ipfs://1234!" })).to.throw("Invalid metadata")
+        expect(() => ProcessContractParameters.fromParams({ ...params, censusUri: "90" })).to.throw("Invalid censusUri")
+        expect(() => ProcessContractParameters.fromParams({ ...params, censusUri: "ipfs://1234,!1234" })).to.throw("Invalid censusUri")
+
+        // EVM censuses have no censusUri
+        expect(() => ProcessContractParameters.fromParams({ ...params, censusOrigin: 11, mode: 1, censusUri: "", tokenAddress: "0x1", evmBlockHeight: 1 })).to.not.throw()
+    })
+
     it("should unwrap the 'get' response values", () => {
         const json1 = ProcessContractParameters.fromContract([
             [1, 2, 3],
@@ -153,4 +170,100 @@ describe("Process contract parameter wrapper", () => {
         expect(json2.namespace).to.eq(180)
         expect(json2.evmBlockHeight).to.eq(190)
     })
+
+    it("should serialize the parameters to JSON and back", () => {
+        const params = ProcessContractParameters.fromContract([
+            [ProcessMode.AUTO_START | ProcessMode.INTERRUPTIBLE, 3, 2],
+            "0x30",
+            ["0x40", "0x50", "0x60"],
+            [70, 80],
+            ProcessStatus.RESULTS,
+            [1, 5, 99, 140, 150],
+            [160, 170, 180],
+            BigNumber.from(190)
+        ])
+        params.processId = "0x" + "12".repeat(32)
+        params.paramsSignature = "0x" + "34".repeat(32)
+        params.results = new ProcessResults([[1, 2], [3, 4]], 5)
+
+        const json = params.toJSON()
+        expect(json).to.deep.eq({
+            version: PROCESS_PARAMS_JSON_VERSION,
+            processId: "0x" + "12".repeat(32),
+            mode: ["AUTO_START", "INTERRUPTIBLE"],
+            envelopeType: ["SERIAL", "ANONYMOUS"],
+            censusOrigin: 2,
+            entityAddress: "0x30",
+            metadata: "0x40",
+            censusRoot: "0x50",
+            censusUri: "0x60",
+            startBlock: 70,
+            blockCount: 80,
+            status: ProcessStatus.RESULTS,
+            questionIndex: 1,
+            questionCount: 5,
+            maxCount: 99,
+            maxValue: 140,
+            maxVoteOverwrites: 150,
+            maxTotalCost: 160,
+            costExponent: 170,
+            namespace: 180,
+            evmBlockHeight: 190,
+            paramsSignature: "0x" + "34".repeat(32),
+            results: { tally: [[1, 2], [3, 4]], height: 5 }
+        })
+
+        const serialized = JSON.stringify(params)
+        expect(JSON.parse(serialized)).to.deep.eq(json)
+
+        for (let item of [ProcessContractParameters.fromJSON(serialized), ProcessContractParameters.fromJSON(json)]) {
+            expect(item).to.be.instanceOf(ProcessContractParameters)
+            expect(item.processId).to.eq(params.processId)
+            expect(item.mode.value).to.eq(params.mode.value)
+            expect(item.envelopeType.value).to.eq(3)
+            expect(item.censusOrigin.value).to.eq(2)
+            expect(item.status.value).to.eq(ProcessStatus.RESULTS)
+            expect(item.questionIndex).to.eq(1)
+            expect(item.evmBlockHeight).to.eq(190)
+            expect(item.paramsSignature).to.eq(params.paramsSignature)
+            expect(item.results).to.be.instanceOf(ProcessResults)
+            expect(item.results.tally).to.deep.eq([[1, 2], [3, 4]])
+            expect(item.toJSON()).to.deep.eq(json)
+        }
+    })
+
+    it("should serialize the 'create' parameters without the on-chain state", () => {
+        const params = ProcessContractParameters.fromParams({
+            mode: 1, envelopeType: 0, censusOrigin: 1, metadata: "ipfs://56", censusRoot: "78", censusUri: "ipfs://90", startBlock: 11, blockCount: 22,
+            questionCount: 10, maxCount: 12, maxValue: 13, maxVoteOverwrites: 14, maxTotalCost: 15, costExponent: 16, namespace: 17, paramsSignature: "0x10"
+        })
+        const json = params.toJSON()
+        expect(json).to.not.have.property("processId")
+        expect(json).to.not.have.property("status")
+        expect(json).to.not.have.property("questionIndex")
+        expect(json).to.not.have.property("results")
+
+        const item = ProcessContractParameters.fromJSON(JSON.stringify(params))
+        expect(item.status).to.eq(undefined)
+        expect(item.results).to.eq(undefined)
+        expect(item.toContractParams()).to.deep.eq(params.toContractParams())
+    })
+
+    it("should fail to parse invalid JSON values", () => {
+        const json = ProcessContractParameters.fromParams({
+            mode: 1, envelopeType: 0, censusOrigin: 1, metadata: "ipfs://56", censusRoot: "78", censusUri: "ipfs://90", startBlock: 11, blockCount: 22,
+            questionCount: 10, maxCount: 12, maxValue: 13, maxVoteOverwrites: 14, maxTotalCost: 15, costExponent: 16, namespace: 17, paramsSignature: "0x10"
+        }).toJSON()
+
+        expect(() => ProcessContractParameters.fromJSON("{")).to.throw("Invalid JSON")
+        expect(() => ProcessContractParameters.fromJSON(null)).to.throw("Invalid JSON")
+        expect(() => ProcessContractParameters.fromJSON({ ...json, version: 2 })).to.throw("Unsupported version")
+        expect(() => ProcessContractParameters.fromJSON({ ...json, version: undefined })).to.throw("Unsupported version")
+        expect(() => ProcessContractParameters.fromJSON({ ...json, maxCount: "12" as any })).to.throw("Invalid maxCount")
+        expect(() => ProcessContractParameters.fromJSON({ ...json, metadata: undefined })).to.throw("Invalid metadata")
+        expect(() => ProcessContractParameters.fromJSON({ ...json, processId: 1 as any })).to.throw("Invalid processId")
+        expect(() => ProcessContractParameters.fromJSON({ ...json, mode: ["SERIAL"] })).to.throw("Invalid process mode")
+        expect(() => ProcessContractParameters.fromJSON({ ...json, status: 10 as any })).to.throw()
+        expect(() => ProcessContractParameters.fromJSON({ ...json, results: { tally: [], height: 1 } })).to.throw("Invalid tally")
+    })
 })
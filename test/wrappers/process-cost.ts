@@ -0,0 +1,104 @@
+import "mocha" // using @types/mocha
+import { expect } from "chai"
+import { addCompletionHooks } from "../utils/mocha-hooks"
+import {
+    computeBallotCost, costExponentToNumber, getMaxAllocation, isBallotAffordable, makeBallotPreset, numberToCostExponent,
+    ProcessContractParameters, ProcessEnvelopeType, VotePackage, IBallotPresetType, computeTally, ProcessCensusOrigin
+} from "../../lib"
+
+import ProcessBuilder from "../builders/process"
+
+addCompletionHooks()
+
+describe("Process cost", () => {
+    it("should convert the cost exponent", () => {
+        expect(costExponentToNumber(0)).to.eq(0)
+        expect(costExponentToNumber(10000)).to.eq(1)
+        expect(costExponentToNumber(15000)).to.eq(1.5)
+        expect(costExponentToNumber(65535)).to.eq(6.5535)
+        expect(() => costExponentToNumber(-1)).to.throw("Invalid costExponent")
+        expect(() => costExponentToNumber(65536)).to.throw("Invalid costExponent")
+        expect(() => costExponentToNumber(1.5)).to.throw("Invalid costExponent")
+
+        expect(numberToCostExponent(0)).to.eq(0)
+        expect(numberToCostExponent(1)).to.eq(10000)
+        expect(numberToCostExponent(2)).to.eq(20000)
+        expect(numberToCostExponent(1.23456)).to.eq(12346)
+        expect(numberToCostExponent(6.5535)).to.eq(65535)
+        expect(() => numberToCostExponent(6.6)).to.throw("Invalid exponent")
+        expect(() => numberToCostExponent(-0.1)).to.throw("Invalid exponent")
+        expect(() => numberToCostExponent(NaN)).to.throw("Invalid exponent")
+        expect(() => numberToCostExponent(Infinity)).to.throw("Invalid exponent")
+    })
+
+    it("should compute the cost of a ballot", () => {
+        expect(computeBallotCost([1, 2, 3], 10000)).to.eq(6)
+        expect(computeBallotCost([1, 2, 3], 20000)).to.eq(14)
+        expect(computeBallotCost([4, 9], 5000)).to.eq(5)
+        expect(computeBallotCost([], 20000)).to.eq(0)
+        expect(() => computeBallotCost(null, 20000)).to.throw("Invalid values")
+
+        expect(isBallotAffordable([3, 1], 10, 20000)).to.eq(true)
+        expect(isBallotAffordable([3, 2], 10, 20000)).to.eq(false)
+        expect(isBallotAffordable([30, 20], 0, 20000)).to.eq(true)
+    })
+
+    it("should compute the maximum allocation of each choice", () => {
+        const params = { maxCount: 3, maxValue: 10, maxTotalCost: 25, costExponent: 20000 }
+
+        expect(getMaxAllocation(params)).to.deep.eq([5, 5, 5])
+        expect(getMaxAllocation(params, [3])).to.deep.eq([5, 4, 4])
+        expect(getMaxAllocation(params, [3, 4])).to.deep.eq([3, 4, 0])
+        expect(getMaxAllocation({ ...params, maxValue: 2 }, [1])).to.deep.eq([2, 2, 2])
+        expect(getMaxAllocation({ ...params, maxTotalCost: 0 }, [3, 4])).to.deep.eq([10, 10, 10])
+        expect(getMaxAllocation({ ...params, costExponent: 10000 }, [20, 5])).to.deep.eq([10, 5, 0])
+
+        // Already exceeded
+        expect(getMaxAllocation({ ...params, costExponent: 10000 }, [10, 10, 10])).to.deep.eq([5, 5, 5])
+        expect(getMaxAllocation({ ...params, maxValue: 30, costExponent: 10000 }, [30, 30])).to.deep.eq([-1, -1, -1])
+
+        expect(() => getMaxAllocation(params, [1, 1, 1, 1])).to.throw("Invalid allocation")
+        expect(() => getMaxAllocation(null)).to.throw("Invalid parameters")
+    })
+
+    it("should provide consistent ballot presets", () => {
+        expect(makeBallotPreset("single-choice", { optionCount: 4 })).to.deep.eq({
+            maxCount: 1, maxValue: 3, maxTotalCost: 0, costExponent: 10000, envelopeType: 0
+        })
+        expect(makeBallotPreset("approval", { optionCount: 4 })).to.deep.eq({
+            maxCount: 4, maxValue: 3, maxTotalCost: 0, costExponent: 10000, envelopeType: ProcessEnvelopeType.UNIQUE_VALUES
+        })
+
+        expect(() => makeBallotPreset("single-choice", { optionCount: 1 })).to.throw("Invalid optionCount")
+        expect(() => makeBallotPreset("single-choice", { optionCount: 257 })).to.throw("Invalid optionCount")
+        expect(() => makeBallotPreset("approval", { optionCount: 101 })).to.throw("Invalid optionCount")
+        expect(() => makeBallotPreset("ranked" as IBallotPresetType, { optionCount: 5 })).to.throw("Invalid preset type")
+        expect(() => makeBallotPreset("quadratic" as IBallotPresetType, { optionCount: 5 })).to.throw("Invalid preset type")
+    })
+
+    it("should produce presets that accept and tally the expected ballots", () => {
+        const makeParams = (type: IBallotPresetType) => ProcessContractParameters.fromParams({
+            ...ProcessBuilder.defaultParams(),
+            ...makeBallotPreset(type, { optionCount: 4 }),
+            censusOrigin: ProcessCensusOrigin.OFF_CHAIN_TREE,
+            questionCount: 1
+        })
+
+        const singleChoice = makeParams("single-choice")
+        expect(VotePackage.validate(singleChoice, { votes: [[3]] })).to.deep.eq([])
+        expect(VotePackage.validate(singleChoice, { votes: [[1, 2]] })).to.not.deep.eq([])
+        expect(computeTally(singleChoice, [
+            { voter: "0x1", votePackage: { votes: [[3]] } },
+            { voter: "0x2", votePackage: { votes: [[0]] } },
+            { voter: "0x3", votePackage: { votes: [[3]] } }
+        ]).tally).to.deep.eq([[1, 0, 0, 2]])
+
+        const approval = makeParams("approval")
+        expect(VotePackage.validate(approval, { votes: [[0, 2, 3]] })).to.deep.eq([])
+        expect(VotePackage.validate(approval, { votes: [[0, 0]] })).to.not.deep.eq([])
+        expect(computeTally(approval, [
+            { voter: "0x1", votePackage: { votes: [[0, 2, 3]] } },
+            { voter: "0x2", votePackage: { votes: [[2]] } }
+        ]).tally).to.deep.eq([[1, 0, 2, 1]])
+    })
+})
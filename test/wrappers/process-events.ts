@@ -0,0 +1,132 @@
+import "mocha" // using @types/mocha
+import { expect } from "chai"
+import { addCompletionHooks } from "../utils/mocha-hooks"
+import { getAccounts, TestAccount } from "../utils"
+import { decodeProcessEvent, decodeProcessEvents, subscribeProcessEvents, IProcessEvent, ProcessContractMethods, ProcessMode, ProcessStatus, ProcessEnvelopeType, ProcessContractParameters, IStatusUpdatedEvent, IActivatedSuccessorEvent } from "../../lib"
+import { Contract } from "ethers"
+
+import ProcessBuilder, { DEFAULT_CHAIN_ID, DEFAULT_NAMESPACE, DEFAULT_RESULTS_HEIGHT, DEFAULT_RESULTS_TALLY } from "../builders/process"
+
+let accounts: TestAccount[]
+let deployAccount: TestAccount
+let entityAccount: TestAccount
+let authorizedOracleAccount: TestAccount
+let contractInstance: Contract & ProcessContractMethods
+let processId: string
+
+const mode = ProcessMode.make({ interruptible: true, dynamicCensus: true })
+const envelopeType = ProcessEnvelopeType.make({ serial: true })
+
+function createProcess() {
+    const params = ProcessContractParameters.fromParams({ ...ProcessBuilder.defaultParams(), mode, envelopeType }).toContractParams()
+    return contractInstance.newProcess(...params).then(tx => tx.wait())
+}
+
+addCompletionHooks()
+
+describe("Process events", () => {
+    beforeEach(async () => {
+        accounts = getAccounts()
+        deployAccount = accounts[0]
+        entityAccount = accounts[1]
+        authorizedOracleAccount = accounts[4]
+
+        contractInstance = await new ProcessBuilder().withOracle(authorizedOracleAccount.address).build(0)
+        processId = await contractInstance.getProcessId(entityAccount.address, 0, DEFAULT_NAMESPACE, DEFAULT_CHAIN_ID)
+    })
+
+    it("should decode the process events of a transaction", async () => {
+        let receipt = await createProcess()
+        let events = decodeProcessEvents(receipt.logs)
+        expect(events.length).to.eq(1)
+        expect(events[0].name).to.eq("NewProcess")
+        expect(events[0].address).to.eq(contractInstance.address)
+        expect(events[0].blockNumber).to.eq(receipt.blockNumber)
+        expect(events[0].transactionHash).to.eq(receipt.transactionHash)
+        if (events[0].name != "NewProcess") throw new Error("Unexpected event")
+        expect(events[0].processId).to.eq(processId)
+        expect(events[0].namespace).to.eq(DEFAULT_NAMESPACE)
+
+        receipt = await contractInstance.setStatus(processId, ProcessStatus.READY).then(tx => tx.wait())
+        const statusEvent = decodeProcessEvent(receipt.logs[0]) as IStatusUpdatedEvent
+        expect(statusEvent.name).to.eq("StatusUpdated")
+        expect(statusEvent.processId).to.eq(processId)
+        expect(statusEvent.namespace).to.eq(DEFAULT_NAMESPACE)
+        expect(statusEvent.status).to.be.instanceOf(ProcessStatus)
+        expect(statusEvent.status.isReady).to.eq(true)
+
+        receipt = await contractInstance.incrementQuestionIndex(processId).then(tx => tx.wait())
+        events = decodeProcessEvents(receipt.logs)
+        expect(events.length).to.eq(1)
+        expect(events[0]).to.deep.include({ name: "QuestionIndexUpdated", processId, namespace: DEFAULT_NAMESPACE, newIndex: 1 })
+
+        receipt = await contractInstance.setCensus(processId, "0x1234", "ipfs://census").then(tx => tx.wait())
+        events = decodeProcessEvents(receipt.logs)
+        expect(events.length).to.eq(1)
+        expect(events[0]).to.deep.include({ name: "CensusUpdated", processId, namespace: DEFAULT_NAMESPACE })
+
+        receipt = await contractInstance.connect(authorizedOracleAccount.wallet).setResults(processId, DEFAULT_RESULTS_TALLY, DEFAULT_RESULTS_HEIGHT).then(tx => tx.wait())
+        events = decodeProcessEvents(receipt.logs)
+        expect(events.length).to.eq(1)
+        expect(events[0]).to.deep.include({ name: "ResultsAvailable", processId })
+    }).timeout(10000)
+
+    it("should decode the activation events", async () => {
+        const successorInstance = await new ProcessBuilder().withPredecessor(contractInstance.address).build(0)
+        const receipt = await contractInstance.connect(deployAccount.wallet).activateSuccessor(successorInstance.address).then(tx => tx.wait())
+
+        const events = decodeProcessEvents(receipt.logs)
+        expect(events.length).to.eq(2)
+        expect(events[0]).to.deep.include({ name: "Activated", activationBlock: receipt.blockNumber, address: successorInstance.address })
+        expect(events[1]).to.deep.include({ name: "ActivatedSuccessor", activationBlock: receipt.blockNumber, address: contractInstance.address })
+        expect((events[1] as IActivatedSuccessorEvent).successor).to.eq(successorInstance.address)
+    }).timeout(8000)
+
+    it("should ignore unrelated logs", async () => {
+        const receipt = await contractInstance.connect(deployAccount.wallet).setNamespaceAddress(await contractInstance.namespaceAddress()).then(tx => tx.wait())
+        expect(receipt.logs.length).to.eq(1)
+        expect(decodeProcessEvent(receipt.logs[0])).to.eq(null)
+        expect(decodeProcessEvents(receipt.logs)).to.deep.eq([])
+    })
+
+    it("should deliver the events matching the filter", async () => {
+        await createProcess()
+
+        const received: IProcessEvent[] = []
+        const unsubscribe1 = subscribeProcessEvents(contractInstance, { namespace: DEFAULT_NAMESPACE, events: ["StatusUpdated", "ResultsAvailable"] }, event => received.push(event))
+        const unsubscribe2 = subscribeProcessEvents(contractInstance, { namespace: DEFAULT_NAMESPACE + 1 }, event => received.push(event))
+        const unsubscribe3 = subscribeProcessEvents(contractInstance, { processId: "0x" + "0".repeat(64) }, event => received.push(event))
+        await Promise.all([unsubscribe1.ready, unsubscribe2.ready, unsubscribe3.ready])
+
+        await contractInstance.setStatus(processId, ProcessStatus.READY).then(tx => tx.wait())
+        await contractInstance.incrementQuestionIndex(processId).then(tx => tx.wait())
+        await contractInstance.connect(authorizedOracleAccount.wallet).setResults(processId, DEFAULT_RESULTS_TALLY, DEFAULT_RESULTS_HEIGHT).then(tx => tx.wait())
+
+        for (let i = 0; i < 50 && received.length < 2; i++) {
+            await new Promise(resolve => setTimeout(resolve, 200))
+        }
+        unsubscribe1()
+        unsubscribe2()
+        unsubscribe3()
+
+        expect(received.map(event => event.name)).to.deep.eq(["StatusUpdated", "ResultsAvailable"])
+    }).timeout(15000)
+
+    it("should deliver the events since the given block", async () => {
+        const fromBlock = await contractInstance.provider.getBlockNumber()
+        await createProcess()
+        await contractInstance.setStatus(processId, ProcessStatus.READY).then(tx => tx.wait())
+
+        const received: IProcessEvent[] = []
+        const unsubscribe = subscribeProcessEvents(contractInstance, { processId, fromBlock }, event => received.push(event))
+        await unsubscribe.ready
+        await contractInstance.incrementQuestionIndex(processId).then(tx => tx.wait())
+
+        for (let i = 0; i < 50 && received.length < 3; i++) {
+            await new Promise(resolve => setTimeout(resolve, 200))
+        }
+        unsubscribe()
+
+        expect(received.map(event => event.name)).to.deep.eq(["NewProcess", "StatusUpdated", "QuestionIndexUpdated"])
+    }).timeout(15000)
+})
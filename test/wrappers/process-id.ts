@@ -0,0 +1,98 @@
+import "mocha" // using @types/mocha
+import { expect } from "chai"
+import { addCompletionHooks } from "../utils/mocha-hooks"
+import { getAccounts, TestAccount } from "../utils"
+import { computeNextProcessId, computeProcessId, ProcessCensusOrigin, ProcessClient, ProcessContractMethods, ProcessMode } from "../../lib"
+import { Contract, Wallet } from "ethers"
+
+import ProcessBuilder from "../builders/process"
+import Erc20Builder from "../builders/erc20"
+
+let accounts: TestAccount[]
+let deployAccount: TestAccount
+let entityAccount: TestAccount
+let contractInstance: Contract & ProcessContractMethods
+
+const chainId = 5
+
+addCompletionHooks()
+
+describe("Process ID computation", () => {
+    beforeEach(async () => {
+        accounts = getAccounts()
+        deployAccount = accounts[0]
+        entityAccount = accounts[1]
+
+        contractInstance = await new ProcessBuilder().withChainId(chainId).build(0)
+    })
+
+    it("should fail on invalid parameters", () => {
+        expect(() => computeProcessId("0x1234", 0, 0, 0)).to.throw("Invalid entityAddress")
+        expect(() => computeProcessId(entityAccount.address, -1, 0, 0)).to.throw("Invalid processCountIndex")
+        expect(() => computeProcessId(entityAccount.address, 0, -1, 0)).to.throw("Invalid namespace")
+        expect(() => computeProcessId(entityAccount.address, 0, 65536, 0)).to.throw("Invalid namespace")
+        expect(() => computeProcessId(entityAccount.address, 0, 1.5, 0)).to.throw("Invalid namespace")
+        expect(() => computeProcessId(entityAccount.address, 0, 0, -1)).to.throw("Invalid chainId")
+        expect(() => computeProcessId(entityAccount.address, 0, 0, "0x10000000000000000" as any)).to.throw("Invalid chainId")
+    })
+
+    it("should match the IDs computed by the contract", async () => {
+        const addresses = [entityAccount.address, Wallet.createRandom().address, "0x0000000000000000000000000000000000000000"]
+        const indexes = [0, 1, 255, 123456789]
+        const namespaces = [0, 1, 65535]
+        const chainIds = [0, 1, 100, "0xffffffffffffffff"]
+
+        for (let address of addresses) {
+            for (let index of indexes) {
+                for (let namespace of namespaces) {
+                    for (let chainId of chainIds) {
+                        const expected = await contractInstance.getProcessId(address, index, namespace, chainId as any)
+                        expect(computeProcessId(address, index, namespace, chainId as any)).to.eq(expected)
+                    }
+                }
+            }
+        }
+    }).timeout(20000)
+
+    it("should predict the ID of new processes with an off-chain census", async () => {
+        const client = new ProcessClient(contractInstance.address, entityAccount.wallet)
+        const origins = [ProcessCensusOrigin.OFF_CHAIN_TREE, ProcessCensusOrigin.OFF_CHAIN_TREE_WEIGHTED, ProcessCensusOrigin.OFF_CHAIN_CA]
+
+        let count = 0
+        for (let censusOrigin of origins) {
+            for (let namespace of [0, 10]) {
+                expect((await contractInstance.getEntityProcessCount(entityAccount.address)).toNumber()).to.eq(count)
+                const expected = computeNextProcessId(entityAccount.address, count, namespace, chainId)
+                expect(await contractInstance.getNextProcessId(entityAccount.address, namespace)).to.eq(expected)
+
+                const processId = await client.create({ ...ProcessBuilder.defaultParams(), censusOrigin, namespace })
+                expect(processId).to.eq(expected)
+                expect(processId).to.eq(computeProcessId(entityAccount.address, count, namespace, chainId))
+                count++
+            }
+        }
+    }).timeout(15000)
+
+    it("should predict the ID of new processes with an EVM census, keyed by the token address", async () => {
+        const tokenInstance = await new Erc20Builder().withTokenStorageProof(await contractInstance.tokenStorageProofAddress()).build()
+        const client = new ProcessClient(contractInstance.address, deployAccount.wallet)
+
+        for (let count = 0; count < 2; count++) {
+            const namespace = count * 10
+            const expected = computeNextProcessId(tokenInstance.address, count, namespace, chainId)
+            expect(await contractInstance.getNextProcessId(tokenInstance.address, namespace)).to.eq(expected)
+
+            const processId = await client.create({
+                ...ProcessBuilder.defaultParams(),
+                mode: ProcessMode.make({ autoStart: true }),
+                censusOrigin: ProcessCensusOrigin.ERC20,
+                tokenAddress: tokenInstance.address,
+                evmBlockHeight: await deployAccount.provider.getBlockNumber(),
+                namespace
+            })
+            expect(processId).to.eq(expected)
+            // The account holding the tokens is not involved
+            expect(processId).to.not.eq(computeProcessId(deployAccount.address, count, namespace, chainId))
+        }
+    }).timeout(20000)
+})
@@ -0,0 +1,158 @@
+import "mocha" // using @types/mocha
+import { expect } from "chai"
+import { addCompletionHooks } from "../utils/mocha-hooks"
+import { getAccounts, TestAccount } from "../utils"
+import { MemoryProcessIndexStore, ProcessClient, ProcessContractMethods, ProcessIndexer, ProcessInstanceResolver, ProcessMode, ProcessResults, ProcessStatus, IProcessCreateParams, IProcessEvent, scanProcessEvents } from "../../lib"
+import { Contract } from "ethers"
+
+import ProcessBuilder, { DEFAULT_NAMESPACE, DEFAULT_RESULTS_HEIGHT, DEFAULT_RESULTS_TALLY } from "../builders/process"
+
+let accounts: TestAccount[]
+let deployAccount: TestAccount
+let entityAccount: TestAccount
+let randomAccount: TestAccount
+let authorizedOracleAccount: TestAccount
+let contractInstance: Contract & ProcessContractMethods
+
+const params: IProcessCreateParams = {
+    ...ProcessBuilder.defaultParams(),
+    mode: ProcessMode.make({ interruptible: true, dynamicCensus: true })
+}
+
+addCompletionHooks()
+
+describe("Process indexer", () => {
+    beforeEach(async () => {
+        accounts = getAccounts()
+        deployAccount = accounts[0]
+        entityAccount = accounts[1]
+        randomAccount = accounts[2]
+        authorizedOracleAccount = accounts[4]
+
+        contractInstance = await new ProcessBuilder().withOracle(authorizedOracleAccount.address).build(0)
+    })
+
+    it("should fail without a resolver or a store", () => {
+        const resolver = new ProcessInstanceResolver(contractInstance.address, entityAccount.wallet)
+        expect(() => new ProcessIndexer(null)).to.throw("Invalid resolver")
+        expect(() => new ProcessIndexer(resolver, null)).to.throw("Invalid store")
+    })
+
+    it("should index the processes of every entity and namespace", async () => {
+        const entityClient = new ProcessClient(contractInstance.address, entityAccount.wallet)
+        const randomClient = new ProcessClient(contractInstance.address, randomAccount.wallet)
+        const oracleClient = new ProcessClient(contractInstance.address, authorizedOracleAccount.wallet)
+
+        const processId1 = await entityClient.create(params)
+        const processId2 = await entityClient.create({ ...params, namespace: DEFAULT_NAMESPACE + 1 })
+        const processId3 = await randomClient.create(params)
+        const processId4 = await entityClient.create(params)
+
+        await entityClient.setStatus(processId1, ProcessStatus.READY)
+        await entityClient.setCensus(processId1, "0x1234", "ipfs://census")
+        await randomClient.setStatus(processId3, ProcessStatus.READY)
+        await oracleClient.setResults(processId4, new ProcessResults(DEFAULT_RESULTS_TALLY, DEFAULT_RESULTS_HEIGHT))
+
+        const indexer = new ProcessIndexer(new ProcessInstanceResolver(contractInstance.address, entityAccount.wallet))
+        await indexer.sync()
+
+        const entityProcesses = await indexer.getEntityProcesses(entityAccount.address)
+        expect(entityProcesses.map(entry => entry.processId)).to.deep.eq([processId1, processId2, processId4])
+        expect((await indexer.getEntityProcesses(randomAccount.address)).map(entry => entry.processId)).to.deep.eq([processId3])
+
+        expect((await indexer.getNamespaceProcesses(DEFAULT_NAMESPACE)).map(entry => entry.processId)).to.deep.eq([processId1, processId3, processId4])
+        expect((await indexer.getNamespaceProcesses(DEFAULT_NAMESPACE + 1)).map(entry => entry.processId)).to.deep.eq([processId2])
+        expect((await indexer.getActiveProcesses(DEFAULT_NAMESPACE)).map(entry => entry.processId)).to.deep.eq([processId1, processId3])
+
+        const entry1 = await indexer.getProcess(processId1)
+        expect(entry1.instanceAddress).to.eq(contractInstance.address)
+        expect(entry1.params.processId).to.eq(processId1)
+        expect(entry1.params.status.value).to.eq(ProcessStatus.READY)
+        expect(entry1.params.censusRoot).to.eq("0x1234")
+        expect(entry1.params.censusUri).to.eq("ipfs://census")
+        expect(entry1.params.paramsSignature).to.eq(params.paramsSignature)
+
+        const entry4 = await indexer.getProcess(processId4)
+        expect(entry4.params.status.value).to.eq(ProcessStatus.RESULTS)
+        expect(entry4.params.results.tally).to.deep.eq(DEFAULT_RESULTS_TALLY)
+        expect(entry4.params.results.height).to.eq(DEFAULT_RESULTS_HEIGHT)
+        expect(entry4.params.toJSON().results).to.deep.eq({ tally: DEFAULT_RESULTS_TALLY, height: DEFAULT_RESULTS_HEIGHT })
+    }).timeout(20000)
+
+    it("should resume from the last checkpoint", async () => {
+        const client = new ProcessClient(contractInstance.address, entityAccount.wallet)
+        const processId1 = await client.create(params)
+
+        const store = new MemoryProcessIndexStore()
+        const indexer = new ProcessIndexer(new ProcessInstanceResolver(contractInstance.address, entityAccount.wallet), store)
+        indexer.blockRange = 3
+        await indexer.sync()
+
+        const checkpoint = await store.getCheckpoint()
+        expect(checkpoint).to.eq(await entityAccount.provider.getBlockNumber())
+        expect((await indexer.getProcess(processId1)).params.status.value).to.eq(ProcessStatus.PAUSED)
+
+        await client.setStatus(processId1, ProcessStatus.READY)
+        const processId2 = await client.create(params)
+
+        // Not synced yet
+        expect((await indexer.getProcess(processId1)).params.status.value).to.eq(ProcessStatus.PAUSED)
+        expect(await indexer.getProcess(processId2)).to.eq(null)
+
+        await indexer.sync()
+        expect(await store.getCheckpoint()).to.be.gt(checkpoint)
+        expect((await indexer.getProcess(processId1)).params.status.value).to.eq(ProcessStatus.READY)
+        expect((await indexer.getProcess(processId2)).params.status.value).to.eq(ProcessStatus.PAUSED)
+    }).timeout(15000)
+
+    it("should index the processes of predecessor instances", async () => {
+        const client = new ProcessClient(contractInstance.address, entityAccount.wallet)
+        const processId1 = await client.create(params)
+
+        const successorInstance = await new ProcessBuilder().withPredecessor(contractInstance.address).build(0)
+        await contractInstance.connect(deployAccount.wallet).activateSuccessor(successorInstance.address).then(tx => tx.wait())
+
+        const processId2 = await client.create(params)
+        await client.setStatus(processId1, ProcessStatus.CANCELED)
+
+        const indexer = new ProcessIndexer(new ProcessInstanceResolver(successorInstance.address, entityAccount.wallet))
+        await indexer.sync()
+
+        const entries = await indexer.getEntityProcesses(entityAccount.address)
+        expect(entries.map(entry => entry.processId)).to.deep.eq([processId1, processId2])
+        expect(entries.map(entry => entry.instanceAddress)).to.deep.eq([contractInstance.address, successorInstance.address])
+        expect(entries[0].params.status.value).to.eq(ProcessStatus.CANCELED)
+    }).timeout(15000)
+
+    it("should scan the process events in block ranges", async () => {
+        const client = new ProcessClient(contractInstance.address, entityAccount.wallet)
+        const fromBlock = await entityAccount.provider.getBlockNumber() + 1
+        const processId = await client.create(params)
+        await client.setStatus(processId, ProcessStatus.READY)
+        await client.setStatus(processId, ProcessStatus.ENDED)
+        const toBlock = await entityAccount.provider.getBlockNumber()
+
+        const events: IProcessEvent[] = []
+        const rangeEnds: number[] = []
+        await scanProcessEvents([contractInstance], { fromBlock, toBlock, blockRange: 2 }, async (rangeEvents, rangeEnd) => {
+            events.push(...rangeEvents)
+            rangeEnds.push(rangeEnd)
+        })
+        expect(events.map(event => event.name)).to.deep.eq(["NewProcess", "StatusUpdated", "StatusUpdated"])
+        expect(rangeEnds[rangeEnds.length - 1]).to.eq(toBlock)
+        expect(rangeEnds.length).to.eq(Math.ceil((toBlock - fromBlock + 1) / 2))
+
+        const topics = [contractInstance.interface.getEventTopic("NewProcess")]
+        const created: IProcessEvent[] = []
+        await scanProcessEvents([contractInstance], { fromBlock, toBlock, blockRange: 2, topics }, async rangeEvents => { created.push(...rangeEvents) })
+        expect(created.map(event => event.name)).to.deep.eq(["NewProcess"])
+
+        try {
+            await scanProcessEvents([contractInstance], { fromBlock, toBlock, blockRange: 0 }, async () => { })
+            throw new Error("The request should have failed")
+        }
+        catch (err) {
+            expect(err.message).to.eq("Invalid block range")
+        }
+    }).timeout(15000)
+})
@@ -0,0 +1,146 @@
+import "mocha" // using @types/mocha
+import { expect } from "chai"
+import { addCompletionHooks } from "../utils/mocha-hooks"
+import {
+    checkProcessMetadata, ContentHashedUri, IProcessMetadata, loadProcessMetadata, PROCESS_METADATA_VERSION,
+    ProcessEnvelopeType, ProcessMetadataBuilder, validateProcessMetadata
+} from "../../lib"
+
+import ProcessBuilder from "../builders/process"
+
+addCompletionHooks()
+
+function makeMetadata(): IProcessMetadata {
+    return new ProcessMetadataBuilder()
+        .withTitle({ default: "Assembly", ca: "Assemblea" })
+        .withDescription("Yearly assembly")
+        .addQuestion("Do you approve the budget?", ["No", "Yes"])
+        .addQuestion("Pick a color", [{ title: "Red", value: 2 }, { title: "Blue", value: 1 }, { title: "Green", value: 0 }], "Of the logo")
+        .build()
+}
+
+describe("Process metadata", () => {
+    it("should build valid metadata documents", () => {
+        const metadata = new ProcessMetadataBuilder()
+            .withTitle({ default: "Assembly", ca: "Assemblea" })
+            .withDescription("Yearly assembly")
+            .withMedia({ header: "https://server/header.png" })
+            .withMeta("category", "assemblies")
+            .withMeta("year", 2021)
+            .addQuestion("Do you approve the budget?", ["No", "Yes"])
+            .addQuestion("Pick a color", [{ title: "Red", value: 2 }, { title: { default: "Blue" }, value: 1 }], "Of the logo")
+            .build()
+
+        expect(metadata).to.deep.eq({
+            version: PROCESS_METADATA_VERSION,
+            title: { default: "Assembly", ca: "Assemblea" },
+            description: { default: "Yearly assembly" },
+            media: { header: "https://server/header.png" },
+            meta: { category: "assemblies", year: 2021 },
+            questions: [{
+                title: { default: "Do you approve the budget?" },
+                choices: [{ title: { default: "No" }, value: 0 }, { title: { default: "Yes" }, value: 1 }]
+            }, {
+                title: { default: "Pick a color" },
+                description: { default: "Of the logo" },
+                choices: [{ title: { default: "Red" }, value: 2 }, { title: { default: "Blue" }, value: 1 }]
+            }]
+        })
+        expect(validateProcessMetadata(metadata)).to.deep.eq([])
+
+        expect(() => new ProcessMetadataBuilder().addQuestion("Question", ["A"]).build()).to.throw("Invalid title")
+        expect(() => new ProcessMetadataBuilder().withTitle("Title").build()).to.throw("No questions")
+        expect(() => new ProcessMetadataBuilder().withTitle("Title").addQuestion("Question", []).build()).to.throw("No choices on question 0")
+        expect(() => new ProcessMetadataBuilder().withTitle("Title").addQuestion("Question", null)).to.throw("Invalid choices")
+    })
+
+    it("should report the errors of invalid documents", () => {
+        const metadata = makeMetadata()
+
+        expect(validateProcessMetadata(null)).to.deep.eq(["Invalid metadata"])
+        expect(validateProcessMetadata({ ...metadata, version: "2.0" })).to.deep.eq(["Unsupported version"])
+        expect(validateProcessMetadata({ ...metadata, title: { default: "" } })).to.deep.eq(["Invalid title"])
+        expect(validateProcessMetadata({ ...metadata, title: { en: "Title" } as any })).to.deep.eq(["Invalid title"])
+        expect(validateProcessMetadata({ ...metadata, description: { default: 1 } as any })).to.deep.eq(["Invalid description"])
+        expect(validateProcessMetadata({ ...metadata, media: "header" as any })).to.deep.eq(["Invalid media"])
+        expect(validateProcessMetadata({ ...metadata, questions: [] })).to.deep.eq(["No questions"])
+
+        const question = metadata.questions[1]
+        const withQuestion = (item: any) => ({ ...metadata, questions: [metadata.questions[0], item] })
+
+        expect(validateProcessMetadata(withQuestion(null))).to.deep.eq(["Invalid question 1"])
+        expect(validateProcessMetadata(withQuestion({ ...question, title: null }))).to.deep.eq(["Invalid title on question 1"])
+        expect(validateProcessMetadata(withQuestion({ ...question, description: "text" }))).to.deep.eq(["Invalid description on question 1"])
+        expect(validateProcessMetadata(withQuestion({ ...question, choices: [] }))).to.deep.eq(["No choices on question 1"])
+        expect(validateProcessMetadata(withQuestion({ ...question, choices: [{ title: "A", value: 0 }] }))).to.deep.eq(["Invalid choice title on question 1"])
+        expect(validateProcessMetadata(withQuestion({ ...question, choices: [{ title: { default: "A" }, value: 1.5 }] }))).to.deep.eq(["Invalid choice value on question 1"])
+        expect(validateProcessMetadata(withQuestion({ ...question, choices: [{ title: { default: "A" }, value: 256 }] }))).to.deep.eq(["Invalid choice value on question 1"])
+        expect(validateProcessMetadata(withQuestion({ ...question, choices: [{ title: { default: "A" }, value: 1 }, { title: { default: "B" }, value: 1 }] })))
+            .to.deep.eq(["Repeated choice values on question 1"])
+    })
+
+    it("should check the metadata against the process parameters", () => {
+        const metadata = makeMetadata()
+
+        expect(checkProcessMetadata(metadata, ProcessBuilder.defaultContractParams({ questionCount: 2, maxCount: 1, maxValue: 2 }))).to.deep.eq([])
+        expect(checkProcessMetadata(metadata, ProcessBuilder.defaultContractParams({ questionCount: 3, maxCount: 1, maxValue: 2 })))
+            .to.deep.eq(["The amount of questions does not match questionCount"])
+        expect(checkProcessMetadata(metadata, ProcessBuilder.defaultContractParams({ questionCount: 2, maxCount: 1, maxValue: 1 })))
+            .to.deep.eq(["The choice values of question 1 exceed maxValue"])
+
+        const uniqueValues = ProcessEnvelopeType.make({ uniqueValues: true })
+        expect(checkProcessMetadata(metadata, ProcessBuilder.defaultContractParams({ questionCount: 2, maxCount: 2, maxValue: 2, envelopeType: uniqueValues }))).to.deep.eq([])
+        expect(checkProcessMetadata(metadata, ProcessBuilder.defaultContractParams({ questionCount: 2, maxCount: 3, maxValue: 2, envelopeType: uniqueValues })))
+            .to.deep.eq(["Question 0 has less choices than maxCount"])
+        expect(checkProcessMetadata(metadata, ProcessBuilder.defaultContractParams({ questionCount: 2, maxCount: 3, maxValue: 2 }))).to.deep.eq([])
+
+        expect(checkProcessMetadata({ ...metadata, version: "2.0" }, ProcessBuilder.defaultContractParams({ questionCount: 2, maxCount: 1, maxValue: 2 }))).to.deep.eq(["Unsupported version"])
+        expect(() => checkProcessMetadata(metadata, null)).to.throw("Invalid parameters")
+    })
+
+    it("should load the metadata and verify its content hash", async () => {
+        const metadata = makeMetadata()
+        const content = JSON.stringify(metadata)
+        const contents: { [uri: string]: string } = {
+            "ipfs://1234": content,
+            "https://server/metadata.json": content,
+            "https://server/tampered.json": content.replace("Assembly", "Tampered")
+        }
+        const requested: string[] = []
+        const fetcher = (uri: string) => {
+            requested.push(uri)
+            return uri in contents ? Promise.resolve(contents[uri]) : Promise.reject(new Error("Not found"))
+        }
+
+        const metadataUri = ContentHashedUri.build(["https://server/down.json", "https://server/tampered.json", "ipfs://1234"], content).toString()
+        expect(await loadProcessMetadata(metadataUri, fetcher)).to.deep.eq(metadata)
+        expect(requested).to.deep.eq(["https://server/down.json", "https://server/tampered.json", "ipfs://1234"])
+
+        const params = ProcessBuilder.defaultContractParams({ questionCount: 2, maxCount: 1, maxValue: 2, metadata: metadataUri })
+        expect(await loadProcessMetadata(params.metadata, fetcher, params)).to.deep.eq(metadata)
+
+        // Without a hash
+        expect((await loadProcessMetadata("https://server/tampered.json", fetcher, null, { allowUnverified: true })).title.default).to.eq("Tampered")
+
+        const expectFailure = async (promise: Promise<any>, message: string) => {
+            try {
+                await promise
+                throw new Error("The request should have failed")
+            }
+            catch (err) {
+                expect(err.message).to.eq(message)
+            }
+        }
+        await expectFailure(loadProcessMetadata(ContentHashedUri.build("https://server/tampered.json", content).toString(), fetcher), "Could not fetch a valid copy of the metadata")
+        await expectFailure(loadProcessMetadata(metadataUri, fetcher, ProcessBuilder.defaultContractParams({ questionCount: 3, maxCount: 1, maxValue: 2 })), "The amount of questions does not match questionCount")
+        await expectFailure(loadProcessMetadata(metadataUri, null), "Invalid fetcher")
+        await expectFailure(loadProcessMetadata("https://server/tampered.json", fetcher), "The URI has no content hash")
+        await expectFailure(loadProcessMetadata("https://server/metadata.json!sha3-hash", fetcher), "Unsupported content hash")
+        await expectFailure(loadProcessMetadata("https://server/metadata.json!1234", fetcher, null, { allowUnverified: true }), "Unsupported content hash")
+
+        contents["https://server/invalid.json"] = "{"
+        await expectFailure(loadProcessMetadata(ContentHashedUri.build("https://server/invalid.json", "{").toString(), fetcher), "Invalid metadata")
+        contents["https://server/invalid.json"] = JSON.stringify({ ...metadata, questions: [] })
+        await expectFailure(loadProcessMetadata("https://server/invalid.json", fetcher, null, { allowUnverified: true }), "No questions")
+    })
+})
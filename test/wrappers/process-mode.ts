@@ -63,6 +63,48 @@ describe("Process Mode wrapper", () => {
         expect(new ProcessMode(ProcessMode.ENCRYPTED_METADATA).hasEncryptedMetadata).to.be.true
     })
 
+    it("Should convert from and to flags", () => {
+        for (let i = 0; i < 16; i++) {
+            const mode = new ProcessMode(i as any)
+            expect(ProcessMode.fromFlags(mode.toFlags()).value).to.eq(i)
+        }
+        expect(new ProcessMode(ProcessMode.AUTO_START | ProcessMode.DYNAMIC_CENSUS).toFlags()).to.deep.eq({
+            autoStart: true, interruptible: false, dynamicCensus: true, encryptedMetadata: false
+        })
+        expect(ProcessMode.fromFlags({ interruptible: true }).value).to.eq(ProcessMode.INTERRUPTIBLE)
+    })
+
+    it("Should describe the flags that are set", () => {
+        const mode = new ProcessMode(ProcessMode.AUTO_START | ProcessMode.DYNAMIC_CENSUS)
+        expect(mode.flagNames).to.deep.eq(["AUTO_START", "DYNAMIC_CENSUS"])
+        expect(mode.toString()).to.eq("AUTO_START | DYNAMIC_CENSUS")
+        expect(`${mode}`).to.eq("AUTO_START | DYNAMIC_CENSUS")
+        expect(mode.describe()).to.eq("Auto start, Dynamic census")
+
+        expect(new ProcessMode(0).toString()).to.eq("NONE")
+        expect(new ProcessMode(0).describe()).to.eq("Default mode")
+        expect(new ProcessMode(15).toString()).to.eq("AUTO_START | INTERRUPTIBLE | DYNAMIC_CENSUS | ENCRYPTED_METADATA")
+    })
+
+    it("Should compare two modes", () => {
+        const mode = new ProcessMode(ProcessMode.AUTO_START | ProcessMode.DYNAMIC_CENSUS)
+        expect(mode.diff(ProcessMode.AUTO_START | ProcessMode.INTERRUPTIBLE)).to.deep.eq({ added: ["INTERRUPTIBLE"], removed: ["DYNAMIC_CENSUS"] })
+        expect(mode.diff(new ProcessMode(15))).to.deep.eq({ added: ["INTERRUPTIBLE", "ENCRYPTED_METADATA"], removed: [] })
+        expect(mode.diff(mode)).to.deep.eq({ added: [], removed: [] })
+    })
+
+    it("Should serialize to JSON and back", () => {
+        for (let i = 0; i < 16; i++) {
+            const mode = new ProcessMode(i as any)
+            expect(ProcessMode.fromJSON(JSON.parse(JSON.stringify(mode))).value).to.eq(i)
+        }
+        expect(JSON.stringify({ mode: new ProcessMode(ProcessMode.AUTO_START | ProcessMode.INTERRUPTIBLE) })).to.eq('{"mode":["AUTO_START","INTERRUPTIBLE"]}')
+        expect(ProcessMode.fromJSON(ProcessMode.DYNAMIC_CENSUS).value).to.eq(ProcessMode.DYNAMIC_CENSUS)
+
+        expect(() => ProcessMode.fromJSON(["AUTO_START", "SERIAL"])).to.throw("Invalid process mode")
+        expect(() => ProcessMode.fromJSON("AUTO_START" as any)).to.throw("Invalid process mode")
+    })
+
     it("Should fail for invalid types", () => {
         for (let i = 256; i < 512; i++) {
             expect(() => { new ProcessMode(i as any) }).to.throw
@@ -0,0 +1,112 @@
+import "mocha" // using @types/mocha
+import { expect } from "chai"
+import { addCompletionHooks } from "../utils/mocha-hooks"
+import { getAccounts, TestAccount } from "../utils"
+import { makeProcessParams, processPresetNames, ProcessCensusOrigin, ProcessClient, ProcessContractMethods, ProcessEnvelopeType, ProcessMode, IProcessCreateParams, IProcessPresetName } from "../../lib"
+import { Contract } from "ethers"
+
+import ProcessBuilder, { DEFAULT_BLOCK_COUNT, DEFAULT_CENSUS_ROOT, DEFAULT_CENSUS_TREE_CONTENT_HASHED_URI, DEFAULT_EVM_BLOCK_HEIGHT, DEFAULT_METADATA_CONTENT_HASHED_URI, DEFAULT_NAMESPACE, DEFAULT_PARAMS_SIGNATURE, DEFAULT_START_BLOCK } from "../builders/process"
+import Erc20Builder from "../builders/erc20"
+
+let accounts: TestAccount[]
+let deployAccount: TestAccount
+let entityAccount: TestAccount
+let contractInstance: Contract & ProcessContractMethods
+
+const baseParams: Partial<IProcessCreateParams> = {
+    metadata: DEFAULT_METADATA_CONTENT_HASHED_URI,
+    censusRoot: DEFAULT_CENSUS_ROOT,
+    censusUri: DEFAULT_CENSUS_TREE_CONTENT_HASHED_URI,
+    startBlock: DEFAULT_START_BLOCK,
+    blockCount: DEFAULT_BLOCK_COUNT,
+    questionCount: 3,
+    maxValue: 4,
+    namespace: DEFAULT_NAMESPACE,
+    paramsSignature: DEFAULT_PARAMS_SIGNATURE
+}
+
+addCompletionHooks()
+
+describe("Process presets", () => {
+    beforeEach(async () => {
+        accounts = getAccounts()
+        deployAccount = accounts[0]
+        entityAccount = accounts[1]
+
+        contractInstance = await new ProcessBuilder().build(0)
+    })
+
+    it("should define the mode, envelope type and census origin of each preset", () => {
+        const poll = makeProcessParams("signed-poll", baseParams)
+        expect(poll.mode).to.eq(ProcessMode.make({ autoStart: true, interruptible: true }))
+        expect(poll.envelopeType).to.eq(0)
+        expect(poll.censusOrigin).to.eq(ProcessCensusOrigin.OFF_CHAIN_TREE)
+        expect(poll.maxCount).to.eq(1)
+        expect(poll.maxValue).to.eq(4)
+
+        const referendum = makeProcessParams("anonymous-referendum", { ...baseParams, questionCount: undefined, maxValue: undefined })
+        expect(referendum.envelopeType).to.eq(ProcessEnvelopeType.ANONYMOUS)
+        expect(referendum.questionCount).to.eq(1)
+        expect(referendum.maxValue).to.eq(1)
+
+        const assembly = makeProcessParams("assembly", { ...baseParams, blockCount: undefined })
+        expect(assembly.mode).to.eq(ProcessMode.INTERRUPTIBLE)
+        expect(assembly.envelopeType).to.eq(ProcessEnvelopeType.SERIAL)
+        expect(assembly.blockCount).to.eq(0)
+
+        const tokenVote = makeProcessParams("erc20-token-vote", { ...baseParams, tokenAddress: "0x1234567890123456789012345678901234567890", evmBlockHeight: DEFAULT_EVM_BLOCK_HEIGHT })
+        expect(tokenVote.mode).to.eq(ProcessMode.AUTO_START)
+        expect(tokenVote.censusOrigin).to.eq(ProcessCensusOrigin.ERC20)
+
+        const election = makeProcessParams("encrypted-election", baseParams)
+        expect(election.envelopeType).to.eq(ProcessEnvelopeType.ENCRYPTED_VOTES)
+    })
+
+    it("should let the caller override the preset fields", () => {
+        const poll = makeProcessParams("signed-poll", { ...baseParams, maxCount: 3, envelopeType: ProcessEnvelopeType.make({ uniqueValues: true }) })
+        expect(poll.maxCount).to.eq(3)
+        expect(poll.envelopeType).to.eq(ProcessEnvelopeType.UNIQUE_VALUES)
+        expect(poll.censusOrigin).to.eq(ProcessCensusOrigin.OFF_CHAIN_TREE)
+    })
+
+    it("should fail when the resulting parameters are not valid", () => {
+        expect(() => makeProcessParams("signed-poll", { ...baseParams, metadata: "" })).to.throw("No metadata")
+        expect(() => makeProcessParams("signed-poll", { ...baseParams, maxValue: undefined })).to.throw("Invalid maxValue")
+        expect(() => makeProcessParams("erc20-token-vote", { ...baseParams })).to.throw("Invalid token address")
+        expect(() => makeProcessParams("erc20-token-vote", {
+            ...baseParams,
+            tokenAddress: "0x1234567890123456789012345678901234567890",
+            mode: ProcessMode.make({ autoStart: true, interruptible: true })
+        })).to.throw("Interruptible not allowed on EVM processes")
+        expect(() => makeProcessParams("erc20-token-vote", { ...baseParams, tokenAddress: entityAccount.address }, entityAccount.address)).to.throw("Invalid token address")
+        expect(() => makeProcessParams("other" as IProcessPresetName, baseParams)).to.throw("Invalid preset")
+        expect(() => makeProcessParams("signed-poll", { ...baseParams, metadata: "56" })).to.throw("Invalid metadata")
+        expect(() => makeProcessParams("signed-poll", { ...baseParams, censusUri: "56" })).to.throw("Invalid censusUri")
+
+        // The signature can be added later
+        const params = makeProcessParams("signed-poll", { ...baseParams, paramsSignature: undefined })
+        expect(params.paramsSignature).to.eq(undefined)
+        expect(() => makeProcessParams("signed-poll", { ...baseParams, paramsSignature: "0x1234" })).to.throw("Invalid paramsSignature")
+    })
+
+    it("should produce parameters accepted by the contract", async () => {
+        const entityClient = new ProcessClient(contractInstance.address, entityAccount.wallet)
+
+        for (let preset of processPresetNames) {
+            if (preset == "erc20-token-vote") continue
+
+            const processId = await entityClient.create(makeProcessParams(preset, baseParams, entityAccount.address))
+            const params = await entityClient.getProcess(processId)
+            expect(params.entityAddress).to.eq(entityAccount.address)
+        }
+
+        const tokenInstance = await new Erc20Builder().withTokenStorageProof(await contractInstance.tokenStorageProofAddress()).build()
+        const deployClient = new ProcessClient(contractInstance.address, deployAccount.wallet)
+        const processId = await deployClient.create(makeProcessParams("erc20-token-vote", {
+            ...baseParams,
+            tokenAddress: tokenInstance.address,
+            evmBlockHeight: DEFAULT_EVM_BLOCK_HEIGHT
+        }, deployAccount.address))
+        expect((await deployClient.getProcess(processId)).entityAddress).to.eq(tokenInstance.address)
+    }).timeout(15000)
+})
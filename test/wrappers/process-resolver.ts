@@ -0,0 +1,82 @@
+import "mocha" // using @types/mocha
+import { expect } from "chai"
+import { addCompletionHooks } from "../utils/mocha-hooks"
+import { getAccounts, TestAccount } from "../utils"
+import { ProcessClient, ProcessContractMethods, ProcessInstanceResolver, ProcessMode, ProcessStatus } from "../../lib"
+import { Contract } from "ethers"
+
+import ProcessBuilder, { DEFAULT_CHAIN_ID, DEFAULT_NAMESPACE } from "../builders/process"
+
+let accounts: TestAccount[]
+let deployAccount: TestAccount
+let entityAccount: TestAccount
+let instanceOld: Contract & ProcessContractMethods
+let instanceNew: Contract & ProcessContractMethods
+
+addCompletionHooks()
+
+describe("Process instance resolver", () => {
+    beforeEach(async () => {
+        accounts = getAccounts()
+        deployAccount = accounts[0]
+        entityAccount = accounts[1]
+
+        const mode = ProcessMode.make({ interruptible: true })
+        instanceOld = await new ProcessBuilder().withMode(mode).build(2)
+        instanceNew = await new ProcessBuilder().withMode(mode).withPredecessor(instanceOld.address).build(0)
+    })
+
+    it("should fail without an address or a signer", () => {
+        expect(() => new ProcessInstanceResolver("", entityAccount.wallet)).to.throw("Invalid contract address")
+        expect(() => new ProcessInstanceResolver(instanceOld.address, null)).to.throw("Invalid signer or provider")
+    })
+
+    it("should skip inactive successors when looking for the active instance", async () => {
+        const resolver = new ProcessInstanceResolver(instanceNew.address, entityAccount.wallet)
+
+        expect((await resolver.getActiveInstance()).address).to.eq(instanceOld.address)
+        expect((await resolver.getInstances()).map(instance => instance.address)).to.deep.eq([instanceOld.address])
+    }).timeout(5000)
+
+    it("should follow the successors and list the predecessors", async () => {
+        const tx = await instanceOld.connect(deployAccount.wallet).activateSuccessor(instanceNew.address)
+        await tx.wait()
+
+        const resolver1 = new ProcessInstanceResolver(instanceOld.address, entityAccount.wallet)
+        expect((await resolver1.getActiveInstance()).address).to.eq(instanceNew.address)
+        expect((await resolver1.getInstances()).map(instance => instance.address)).to.deep.eq([instanceNew.address, instanceOld.address])
+
+        const resolver2 = new ProcessInstanceResolver(instanceNew.address, entityAccount.wallet)
+        expect((await resolver2.getActiveInstance()).address).to.eq(instanceNew.address)
+        expect((await resolver2.getInstances()).map(instance => instance.address)).to.deep.eq([instanceNew.address, instanceOld.address])
+    }).timeout(5000)
+
+    it("should find the instance where each process was created", async () => {
+        const tx = await instanceOld.connect(deployAccount.wallet).activateSuccessor(instanceNew.address)
+        await tx.wait()
+
+        const client = new ProcessClient(instanceOld.address, entityAccount.wallet)
+        const oldProcessId = await instanceOld.getProcessId(entityAccount.address, 1, DEFAULT_NAMESPACE, DEFAULT_CHAIN_ID)
+        const newProcessId = await client.create(ProcessBuilder.defaultParams())
+        expect(newProcessId).to.eq(await instanceOld.getProcessId(entityAccount.address, 2, DEFAULT_NAMESPACE, DEFAULT_CHAIN_ID))
+
+        const resolver = new ProcessInstanceResolver(instanceNew.address, entityAccount.wallet)
+        expect((await resolver.getProcessInstance(oldProcessId)).address).to.eq(instanceOld.address)
+        expect((await resolver.getProcessInstance(newProcessId)).address).to.eq(instanceNew.address)
+        expect((await resolver.getProcessInstance(newProcessId.toUpperCase().replace("0X", "0x"))).address).to.eq(instanceNew.address)
+
+        // The active instance rejects updates on processes created by its predecessor
+        try {
+            await instanceNew.setStatus(oldProcessId, ProcessStatus.READY).then(tx => tx.wait())
+            throw new Error("The transaction should have thrown an error but didn't")
+        }
+        catch (err) {
+            expect(err.message).to.match(/revert Not found: Try on predecessor/, "The transaction threw an unexpected error:\n" + err.message)
+        }
+
+        // The client routes them transparently
+        expect((await client.setStatus(oldProcessId, ProcessStatus.READY)).status.value).to.eq(ProcessStatus.READY)
+        expect((await client.setStatus(newProcessId, ProcessStatus.READY)).status.value).to.eq(ProcessStatus.READY)
+        expect((await instanceNew.get(oldProcessId))[4]).to.eq(ProcessStatus.READY)
+    }).timeout(10000)
+})
@@ -0,0 +1,93 @@
+import "mocha" // using @types/mocha
+import { expect } from "chai"
+import { addCompletionHooks } from "../utils/mocha-hooks"
+import { ProcessCensusOrigin, ProcessEnvelopeType, ProcessResults } from "../../lib"
+
+import ProcessBuilder from "../builders/process"
+
+addCompletionHooks()
+
+describe("Process Results wrapper", () => {
+    it("should fail on invalid values", () => {
+        expect(() => new ProcessResults([], 1)).to.throw("Invalid tally")
+        expect(() => new ProcessResults(null, 1)).to.throw("Invalid tally")
+        expect(() => new ProcessResults([[1]], 0)).to.throw("Invalid height")
+    })
+
+    it("should compute the winners of each question", () => {
+        const results = new ProcessResults([[1, 5, 3], [4, 4, 0], [0, 0, 0], [0, 0, 7]], 10)
+        expect(results.getWinners()).to.deep.eq([[1], [0, 1], [], [2]])
+    })
+
+    it("should compute the percentages over the height", () => {
+        const results = new ProcessResults([[1, 5, 4], [0, 8, 0]], 8)
+        expect(results.getPercentages()).to.deep.eq([[12.5, 62.5, 50], [0, 100, 0]])
+    })
+
+    it("should compute the weighted sums", () => {
+        const results = new ProcessResults([[1, 5, 4], [3, 0, 0, 2]], 10)
+        expect(results.getWeightedSums()).to.deep.eq([0 * 1 + 1 * 5 + 2 * 4, 3 * 2])
+    })
+
+    it("should check the shape of the tally against the process parameters", () => {
+        const params = ProcessBuilder.defaultContractParams({ questionCount: 2, maxCount: 1, maxValue: 2 })
+
+        expect(new ProcessResults([[3, 2, 5], [10, 0, 0]], 10).isValidFor(params)).to.eq(true)
+        expect(new ProcessResults([[3, 2], [10]], 10).isValidFor(params)).to.eq(true)
+
+        // questionCount
+        expect(new ProcessResults([[3, 2, 5]], 10).isValidFor(params)).to.eq(false)
+        expect(new ProcessResults([[3, 2, 5], [1], [1]], 10).isValidFor(params)).to.eq(false)
+        // maxValue
+        expect(new ProcessResults([[3, 2, 4, 1], [10]], 10).isValidFor(params)).to.eq(false)
+        // maxCount
+        expect(new ProcessResults([[3, 2, 6], [10]], 10).isValidFor(params)).to.eq(false)
+        expect(new ProcessResults([[3, 2, 6], [10]], 10).isValidFor(ProcessBuilder.defaultContractParams({ questionCount: 2, maxCount: 2, maxValue: 2 }))).to.eq(true)
+        // Invalid counts
+        expect(new ProcessResults([[3, -2, 5], [10]], 10).isValidFor(params)).to.eq(false)
+        expect(new ProcessResults([[3, 1.5, 5], [10]], 10).isValidFor(params)).to.eq(false)
+
+        expect(() => new ProcessResults([[1]], 1).isValidFor(null)).to.throw("Invalid parameters")
+    })
+
+    it("should apply uniqueValues and the maximum cost per envelope", () => {
+        const uniqueParams = ProcessBuilder.defaultContractParams({ questionCount: 1, maxCount: 3, maxValue: 2, envelopeType: ProcessEnvelopeType.make({ uniqueValues: true }) })
+        expect(new ProcessResults([[10, 10, 10]], 10).isValidFor(uniqueParams)).to.eq(true)
+        expect(new ProcessResults([[0, 20, 10]], 10).isValidFor(uniqueParams)).to.eq(false)
+        expect(new ProcessResults([[0, 20, 10]], 10).isValidFor(ProcessBuilder.defaultContractParams({ questionCount: 1, maxCount: 3, maxValue: 2 }))).to.eq(true)
+
+        // Quadratic: 3 votes on the value 2 cost 12 > 10
+        const quadraticParams = ProcessBuilder.defaultContractParams({ questionCount: 1, maxCount: 5, maxValue: 3, maxTotalCost: 10, costExponent: 20000 })
+        expect(new ProcessResults([[0, 1, 1, 1]], 1).isValidFor(quadraticParams)).to.eq(false)
+        expect(new ProcessResults([[0, 1, 2, 0]], 1).isValidFor(quadraticParams)).to.eq(true)
+        expect(new ProcessResults([[0, 2, 4, 0]], 2).isValidFor(quadraticParams)).to.eq(true)
+        expect(new ProcessResults([[0, 0, 3, 0]], 1).isValidFor(quadraticParams)).to.eq(false)
+
+        // Weights are not limited
+        const weightedParams = ProcessBuilder.defaultContractParams({ questionCount: 1, maxCount: 1, maxValue: 1, censusOrigin: ProcessCensusOrigin.OFF_CHAIN_TREE_WEIGHTED })
+        expect(new ProcessResults([[500, 1000]], 10).isValidFor(weightedParams)).to.eq(true)
+        expect(new ProcessResults([[500, 1000, 1]], 10).isValidFor(weightedParams)).to.eq(false)
+    })
+
+    it("should export the results as JSON and CSV", () => {
+        const tally = [[1, 5, 4], [0, 8]]
+        const results = new ProcessResults(tally, 8)
+
+        const json = results.toJSON()
+        expect(json).to.deep.eq({ tally: [[1, 5, 4], [0, 8]], height: 8 })
+        expect(JSON.stringify(results)).to.eq('{"tally":[[1,5,4],[0,8]],"height":8}')
+
+        json.tally[0][0] = 100
+        expect(results.tally[0][0]).to.eq(1)
+
+        expect(results.toCSV()).to.eq([
+            "question,value,count,percentage",
+            "0,0,1,12.50",
+            "0,1,5,62.50",
+            "0,2,4,50.00",
+            "1,0,0,0.00",
+            "1,1,8,100.00",
+            ""
+        ].join("\n"))
+    })
+})
@@ -0,0 +1,128 @@
+import "mocha" // using @types/mocha
+import { expect } from "chai"
+import { addCompletionHooks } from "../utils/mocha-hooks"
+import { BlockSchedule, DEFAULT_BLOCK_TIME, getEffectiveStatus, IProcessCreateParams, IProcessStatus, ProcessMode, ProcessStatus } from "../../lib"
+
+import ProcessBuilder from "../builders/process"
+
+addCompletionHooks()
+
+const reference = { blockNumber: 1000, date: new Date("2021-03-01T12:00:00Z") }
+
+const SCHEDULE_PARAMS: Partial<IProcessCreateParams> = { startBlock: 1100, blockCount: 50 }
+
+describe("Process schedule", () => {
+    it("should convert dates into blocks and back", () => {
+        const schedule = new BlockSchedule(reference)
+        expect(schedule.blockTime).to.eq(DEFAULT_BLOCK_TIME)
+
+        expect(schedule.dateToBlock(new Date("2021-03-01T12:00:00Z"))).to.eq(1000)
+        expect(schedule.dateToBlock(new Date("2021-03-01T13:00:00Z"))).to.eq(1360)
+        expect(schedule.dateToBlock(new Date("2021-03-01T13:00:05Z"))).to.eq(1361)
+        expect(schedule.dateToBlock(new Date("2021-03-01T11:00:00Z"))).to.eq(640)
+        expect(schedule.blockToDate(1360).toISOString()).to.eq("2021-03-01T13:00:00.000Z")
+        expect(schedule.blockToDate(0).toISOString()).to.eq("2021-03-01T09:13:20.000Z")
+
+        expect(schedule.getCurrentBlock(new Date("2021-03-01T13:00:05Z"))).to.eq(1360)
+        expect(schedule.getCurrentBlock(new Date("2020-01-01T00:00:00Z"))).to.eq(0)
+
+        const fast = new BlockSchedule(reference, 5000)
+        expect(fast.dateToBlock(new Date("2021-03-01T13:00:00Z"))).to.eq(1720)
+
+        // The reference is copied
+        expect(schedule.reference.date).to.not.eq(reference.date)
+        expect(schedule.reference).to.deep.eq(reference)
+
+        expect(() => schedule.dateToBlock(new Date("2020-01-01T00:00:00Z"))).to.throw("The date is before the first block")
+        expect(() => schedule.dateToBlock(new Date("invalid"))).to.throw("Invalid date")
+        expect(() => schedule.blockToDate(-1)).to.throw("Invalid block number")
+        expect(() => new BlockSchedule(null)).to.throw("Invalid reference")
+        expect(() => new BlockSchedule({ blockNumber: 1.5, date: new Date() })).to.throw("Invalid reference")
+        expect(() => new BlockSchedule(reference, 0)).to.throw("Invalid block time")
+    })
+
+    it("should compute the block window of a process", () => {
+        const schedule = new BlockSchedule(reference)
+
+        const window = schedule.getBlockWindow(new Date("2021-03-01T13:00:00Z"), new Date("2021-03-02T13:00:00Z"))
+        expect(window).to.deep.eq({ startBlock: 1360, blockCount: 8640 })
+
+        const { startDate, endDate } = schedule.getProcessDates(window)
+        expect(startDate.toISOString()).to.eq("2021-03-01T13:00:00.000Z")
+        expect(endDate.toISOString()).to.eq("2021-03-02T13:00:00.000Z")
+
+        expect(() => schedule.getBlockWindow(new Date("2021-03-01T13:00:00Z"), new Date("2021-03-01T13:00:00Z")))
+            .to.throw("The end date needs to be after the start date")
+    })
+
+    it("should compute the effective status of auto start processes", () => {
+        const autoStart = ProcessMode.make({ autoStart: true, interruptible: true })
+
+        const ready = ProcessBuilder.defaultContractParams({ ...SCHEDULE_PARAMS, mode: autoStart }, { status: new ProcessStatus(ProcessStatus.READY) })
+        expect(getEffectiveStatus(ready, 1099).value).to.eq(ProcessStatus.PAUSED)
+        expect(getEffectiveStatus(ready, 1100).value).to.eq(ProcessStatus.READY)
+        expect(getEffectiveStatus(ready, 1149).value).to.eq(ProcessStatus.READY)
+        expect(getEffectiveStatus(ready, 1150).value).to.eq(ProcessStatus.ENDED)
+
+        const paused = ProcessBuilder.defaultContractParams({ ...SCHEDULE_PARAMS, mode: autoStart }, { status: new ProcessStatus(ProcessStatus.PAUSED) })
+        expect(getEffectiveStatus(paused, 1120).value).to.eq(ProcessStatus.PAUSED)
+        expect(getEffectiveStatus(paused, 1150).value).to.eq(ProcessStatus.ENDED)
+
+        const canceled = ProcessBuilder.defaultContractParams({ ...SCHEDULE_PARAMS, mode: autoStart }, { status: new ProcessStatus(ProcessStatus.CANCELED) })
+        expect(getEffectiveStatus(canceled, 1099).value).to.eq(ProcessStatus.CANCELED)
+        expect(getEffectiveStatus(canceled, 1200).value).to.eq(ProcessStatus.CANCELED)
+
+        // Without auto start
+        const manual = ProcessBuilder.defaultContractParams({ ...SCHEDULE_PARAMS, mode: ProcessMode.make({ interruptible: true }) }, { status: new ProcessStatus(ProcessStatus.READY) })
+        expect(getEffectiveStatus(manual, 1099).value).to.eq(ProcessStatus.READY)
+        expect(getEffectiveStatus(manual, 1200).value).to.eq(ProcessStatus.READY)
+
+        // Open-ended
+        const openEnded = ProcessBuilder.defaultContractParams({ ...SCHEDULE_PARAMS, blockCount: 0, mode: autoStart }, { status: new ProcessStatus(ProcessStatus.READY) })
+        expect(getEffectiveStatus(openEnded, 1099).value).to.eq(ProcessStatus.PAUSED)
+        expect(getEffectiveStatus(openEnded, 1100).value).to.eq(ProcessStatus.READY)
+        expect(getEffectiveStatus(openEnded, 100000).value).to.eq(ProcessStatus.READY)
+
+        expect(() => getEffectiveStatus(ready, -1)).to.throw("Invalid block number")
+        expect(() => getEffectiveStatus(ProcessBuilder.defaultContractParams(), 1100)).to.throw("Invalid parameters")
+    })
+
+    it("should report the time left", () => {
+        const schedule = new BlockSchedule(reference)
+        const params = ProcessBuilder.defaultContractParams({ ...SCHEDULE_PARAMS, mode: ProcessMode.make({ autoStart: true }) }, { status: new ProcessStatus(ProcessStatus.READY) })
+
+        expect(schedule.getTimeLeft(params, new Date("2021-03-01T12:00:00Z"))).to.deep.eq({
+            status: new ProcessStatus(ProcessStatus.PAUSED),
+            currentBlock: 1000,
+            blocksUntilStart: 100,
+            blocksUntilEnd: 150,
+            untilStart: 1000000,
+            untilEnd: 1500000
+        })
+
+        const running = schedule.getTimeLeft(params, new Date("2021-03-01T12:20:05Z"))
+        expect(running.status.value).to.eq(ProcessStatus.READY)
+        expect(running.currentBlock).to.eq(1120)
+        expect(running.blocksUntilStart).to.eq(0)
+        expect(running.blocksUntilEnd).to.eq(30)
+        expect(running.untilStart).to.eq(0)
+        expect(running.untilEnd).to.eq(295000)
+
+        const ended = schedule.getTimeLeft(params, new Date("2021-03-01T13:00:00Z"))
+        expect(ended.status.value).to.eq(ProcessStatus.ENDED)
+        expect(ended.blocksUntilEnd).to.eq(0)
+        expect(ended.untilEnd).to.eq(0)
+
+        // Open-ended
+        const openEnded = ProcessBuilder.defaultContractParams({ ...SCHEDULE_PARAMS, blockCount: 0, mode: ProcessMode.make({ autoStart: true, interruptible: true }) }, { status: new ProcessStatus(ProcessStatus.READY) })
+        expect(schedule.getProcessDates(openEnded).endDate).to.eq(null)
+        expect(schedule.getTimeLeft(openEnded, new Date("2021-03-01T13:00:00Z"))).to.deep.eq({
+            status: new ProcessStatus(ProcessStatus.READY),
+            currentBlock: 1360,
+            blocksUntilStart: 0,
+            blocksUntilEnd: null,
+            untilStart: 0,
+            untilEnd: null
+        })
+    })
+})
@@ -0,0 +1,90 @@
+import "mocha" // using @types/mocha
+import { expect } from "chai"
+import { addCompletionHooks } from "../utils/mocha-hooks"
+import { getAccounts, TestAccount } from "../utils"
+import { computeProcessParamsDigest, hashProcessParamsSignature, ProcessClient, ProcessContractParameters, ProcessContractMethods, ProcessMode, serializeProcessParams, signProcessParams, verifyProcessParams, IProcessCreateParams } from "../../lib"
+import { Contract } from "ethers"
+
+import ProcessBuilder from "../builders/process"
+
+let accounts: TestAccount[]
+let entityAccount: TestAccount
+let randomAccount: TestAccount
+let contractInstance: Contract & ProcessContractMethods
+
+addCompletionHooks()
+
+describe("Process params signature", () => {
+    beforeEach(async () => {
+        accounts = getAccounts()
+        entityAccount = accounts[1]
+        randomAccount = accounts[2]
+
+        contractInstance = await new ProcessBuilder().build(0)
+    })
+
+    it("should produce the same digest from the create params and from the contract state", async () => {
+        const params: IProcessCreateParams = { ...ProcessBuilder.defaultParams(), paramsSignature: undefined }
+        const digest = computeProcessParamsDigest(params)
+
+        const client = new ProcessClient(contractInstance.address, entityAccount.wallet)
+        const processId = await client.create({ ...params, paramsSignature: "0x2222222222222222222222222222222222222222222222222222222222222222" })
+        const stored = await client.getProcess(processId)
+
+        expect(stored.entityAddress).to.eq(entityAccount.address)
+        expect(serializeProcessParams(stored)).to.eq(serializeProcessParams(params))
+        expect(computeProcessParamsDigest(stored)).to.eq(digest)
+
+        // Mutable fields are not covered
+        stored.questionIndex = 1
+        expect(computeProcessParamsDigest(stored)).to.eq(digest)
+    })
+
+    it("should change the digest when any signed field changes", () => {
+        const params = ProcessBuilder.defaultParams()
+        const digest = computeProcessParamsDigest(params)
+
+        expect(computeProcessParamsDigest({ ...params, metadata: params.metadata + "1" })).to.not.eq(digest)
+        expect(computeProcessParamsDigest({ ...params, censusUri: params.censusUri + "1" })).to.not.eq(digest)
+        expect(computeProcessParamsDigest({ ...params, mode: ProcessMode.make({ interruptible: true }) })).to.not.eq(digest)
+        expect(computeProcessParamsDigest({ ...params, maxCount: params.maxCount + 1 })).to.not.eq(digest)
+        expect(computeProcessParamsDigest({ ...params, namespace: params.namespace + 1 })).to.not.eq(digest)
+        expect(computeProcessParamsDigest({ ...params, blockCount: params.blockCount + 1 })).to.not.eq(digest)
+
+        // Not part of the signed fields
+        expect(computeProcessParamsDigest({ ...params, paramsSignature: "0x3333333333333333333333333333333333333333333333333333333333333333" })).to.eq(digest)
+    })
+
+    it("should verify the signature of the entity", async () => {
+        const params = ProcessBuilder.defaultParams()
+        const signature = await signProcessParams(entityAccount.wallet, params)
+
+        expect(verifyProcessParams(params, signature, entityAccount.address)).to.eq(true)
+        expect(verifyProcessParams(params, signature, entityAccount.address.toLowerCase())).to.eq(true)
+        expect(verifyProcessParams(ProcessContractParameters.fromParams(params), signature, entityAccount.address)).to.eq(true)
+
+        expect(verifyProcessParams(params, signature, randomAccount.address)).to.eq(false)
+        expect(verifyProcessParams({ ...params, maxValue: params.maxValue + 1 }, signature, entityAccount.address)).to.eq(false)
+        expect(verifyProcessParams(params, await signProcessParams(randomAccount.wallet, params), entityAccount.address)).to.eq(false)
+        expect(verifyProcessParams(params, "0x1234", entityAccount.address)).to.eq(false)
+
+        expect(() => verifyProcessParams(params, signature, "0x1234")).to.throw("Invalid expectedEntity")
+        expect(() => verifyProcessParams({ ...params, metadata: "" }, signature, entityAccount.address)).to.throw("Invalid metadata")
+    })
+
+    it("should verify the parameters stored on the contract against the hash of the signature", async () => {
+        const params: IProcessCreateParams = { ...ProcessBuilder.defaultParams(), mode: ProcessMode.make({ interruptible: true }) }
+        const signature = await signProcessParams(entityAccount.wallet, params)
+        const signatureHash = hashProcessParamsSignature(signature)
+
+        const client = new ProcessClient(contractInstance.address, entityAccount.wallet)
+        const processId = await client.create({ ...params, paramsSignature: signatureHash })
+
+        // Oracle side
+        const stored = await client.getProcess(processId)
+        expect(stored.paramsSignature).to.eq(signatureHash)
+        expect(verifyProcessParams(stored, signature, stored.entityAddress)).to.eq(true)
+
+        expect(() => hashProcessParamsSignature("0x1234")).to.throw("Invalid signature")
+    })
+})
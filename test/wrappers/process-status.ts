@@ -1,7 +1,11 @@
 import "mocha" // using @types/mocha
 import { expect } from "chai"
 import { addCompletionHooks } from "../utils/mocha-hooks"
-import { ProcessStatus, IProcessStatus } from "../../lib"
+import { getAccounts, TestAccount } from "../utils"
+import { ProcessCensusOrigin, ProcessClient, ProcessContractMethods, ProcessMode, ProcessResults, ProcessStatus, IProcessStatus } from "../../lib"
+import { Contract } from "ethers"
+
+import ProcessBuilder, { DEFAULT_RESULTS_HEIGHT, DEFAULT_RESULTS_TALLY } from "../builders/process"
 
 addCompletionHooks()
 
@@ -81,4 +85,94 @@ describe("Process Status wrapper", () => {
     it("should fail on invalid process status", () => {
         for (let i = 5; i < 260; i++) expect(() => new ProcessStatus(i as IProcessStatus)).to.throw
     })
+
+    it("should describe the status", () => {
+        expect(new ProcessStatus(ProcessStatus.READY).toString()).to.eq("READY")
+        expect(new ProcessStatus(ProcessStatus.READY).describe()).to.eq("Ready")
+        expect(new ProcessStatus(ProcessStatus.ENDED).toString()).to.eq("ENDED")
+        expect(new ProcessStatus(ProcessStatus.CANCELED).toString()).to.eq("CANCELED")
+        expect(new ProcessStatus(ProcessStatus.PAUSED).toString()).to.eq("PAUSED")
+        expect(new ProcessStatus(ProcessStatus.RESULTS).toString()).to.eq("RESULTS")
+        expect(new ProcessStatus(ProcessStatus.RESULTS).describe()).to.eq("Results available")
+    })
+
+    it("should allow the same transitions as setStatus", () => {
+        const interruptible = { mode: ProcessMode.make({ interruptible: true }), censusOrigin: ProcessCensusOrigin.OFF_CHAIN_TREE }
+        const uninterruptible = { mode: ProcessMode.make({}), censusOrigin: ProcessCensusOrigin.OFF_CHAIN_TREE }
+
+        expect(new ProcessStatus(ProcessStatus.PAUSED).allowedTransitions(interruptible)).to.deep.eq([ProcessStatus.READY, ProcessStatus.ENDED, ProcessStatus.CANCELED])
+        expect(new ProcessStatus(ProcessStatus.READY).allowedTransitions(interruptible)).to.deep.eq([ProcessStatus.ENDED, ProcessStatus.CANCELED, ProcessStatus.PAUSED])
+        expect(new ProcessStatus(ProcessStatus.ENDED).allowedTransitions(interruptible)).to.deep.eq([])
+        expect(new ProcessStatus(ProcessStatus.CANCELED).allowedTransitions(interruptible)).to.deep.eq([])
+        expect(new ProcessStatus(ProcessStatus.RESULTS).allowedTransitions(interruptible)).to.deep.eq([])
+
+        // Only PAUSED => READY, once
+        expect(new ProcessStatus(ProcessStatus.PAUSED).allowedTransitions(uninterruptible)).to.deep.eq([ProcessStatus.READY])
+        expect(new ProcessStatus(ProcessStatus.READY).allowedTransitions(uninterruptible)).to.deep.eq([])
+        expect(new ProcessStatus(ProcessStatus.PAUSED).canTransitionTo(ProcessStatus.READY, { ...uninterruptible, mode: new ProcessMode(uninterruptible.mode) })).to.eq(true)
+        expect(new ProcessStatus(ProcessStatus.PAUSED).canTransitionTo(ProcessStatus.ENDED, uninterruptible)).to.eq(false)
+
+        // Off-chain census origins only
+        for (let censusOrigin of [ProcessCensusOrigin.OFF_CHAIN_TREE_WEIGHTED, ProcessCensusOrigin.OFF_CHAIN_CA]) {
+            expect(new ProcessStatus(ProcessStatus.READY).allowedTransitions({ ...interruptible, censusOrigin })).to.deep.eq([ProcessStatus.ENDED, ProcessStatus.CANCELED, ProcessStatus.PAUSED])
+        }
+        for (let censusOrigin of [ProcessCensusOrigin.ERC20, ProcessCensusOrigin.MINI_ME]) {
+            const context = { mode: ProcessMode.make({ autoStart: true }), censusOrigin }
+            expect(new ProcessStatus(ProcessStatus.READY).allowedTransitions(context)).to.deep.eq([])
+            expect(new ProcessStatus(ProcessStatus.READY).allowedTransitions({ ...context, byOracle: true })).to.deep.eq([ProcessStatus.RESULTS])
+        }
+    })
+
+    it("should allow the same transitions as setResults", () => {
+        const context = { mode: ProcessMode.make({ interruptible: true }), censusOrigin: ProcessCensusOrigin.OFF_CHAIN_TREE }
+
+        for (let status of [ProcessStatus.READY, ProcessStatus.ENDED, ProcessStatus.PAUSED]) {
+            expect(new ProcessStatus(status).canTransitionTo(ProcessStatus.RESULTS, context)).to.eq(false)
+            expect(new ProcessStatus(status).allowedTransitions({ ...context, byOracle: true })).to.deep.eq([ProcessStatus.RESULTS])
+        }
+        for (let status of [ProcessStatus.CANCELED, ProcessStatus.RESULTS]) {
+            expect(new ProcessStatus(status).allowedTransitions({ ...context, byOracle: true })).to.deep.eq([])
+        }
+    })
+
+    it("should fail on invalid transition parameters", () => {
+        const context = { mode: ProcessMode.make({}), censusOrigin: ProcessCensusOrigin.OFF_CHAIN_TREE }
+
+        expect(() => new ProcessStatus(ProcessStatus.READY).canTransitionTo(ProcessStatus.PAUSED, null)).to.throw("Invalid context")
+        expect(() => new ProcessStatus(ProcessStatus.READY).canTransitionTo(5 as IProcessStatus, context)).to.throw("Invalid status")
+        expect(() => new ProcessStatus(ProcessStatus.READY).canTransitionTo(ProcessStatus.PAUSED, { ...context, censusOrigin: 4 as any })).to.throw("Invalid origin")
+    })
+
+    it("should match the transitions accepted by the contract", async () => {
+        const accounts: TestAccount[] = getAccounts()
+        const entityAccount = accounts[1]
+        const authorizedOracleAccount = accounts[4]
+
+        const contractInstance: Contract & ProcessContractMethods = await new ProcessBuilder().withOracle(authorizedOracleAccount.address).build(0)
+        const entityClient = new ProcessClient(contractInstance.address, entityAccount.wallet)
+        const oracleClient = new ProcessClient(contractInstance.address, authorizedOracleAccount.wallet)
+
+        for (let interruptible of [false, true]) {
+            const mode = ProcessMode.make({ interruptible })
+            const paths: IProcessStatus[][] = [[], [ProcessStatus.READY], [ProcessStatus.RESULTS]]
+            if (interruptible) paths.push([ProcessStatus.ENDED], [ProcessStatus.CANCELED], [ProcessStatus.READY, ProcessStatus.PAUSED], [ProcessStatus.ENDED, ProcessStatus.RESULTS])
+
+            for (let path of paths) {
+                const processId = await entityClient.create({ ...ProcessBuilder.defaultParams(), mode })
+                for (let status of path) {
+                    if (status == ProcessStatus.RESULTS) await oracleClient.setResults(processId, new ProcessResults(DEFAULT_RESULTS_TALLY, DEFAULT_RESULTS_HEIGHT))
+                    else await entityClient.setStatus(processId, status)
+                }
+
+                const { status: current, censusOrigin } = await entityClient.getProcess(processId)
+
+                for (let next of [ProcessStatus.READY, ProcessStatus.ENDED, ProcessStatus.CANCELED, ProcessStatus.PAUSED]) {
+                    const accepted = await contractInstance.connect(entityAccount.wallet).callStatic.setStatus(processId, next).then(() => true, () => false)
+                    expect(current.canTransitionTo(next, { mode, censusOrigin })).to.eq(accepted, `${current.value} => ${next}`)
+                }
+                const accepted = await contractInstance.connect(authorizedOracleAccount.wallet).callStatic.setResults(processId, DEFAULT_RESULTS_TALLY, DEFAULT_RESULTS_HEIGHT).then(() => true, () => false)
+                expect(current.canTransitionTo(ProcessStatus.RESULTS, { mode, censusOrigin, byOracle: true })).to.eq(accepted)
+            }
+        }
+    }).timeout(20000)
 })
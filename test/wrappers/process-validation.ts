@@ -0,0 +1,203 @@
+import "mocha" // using @types/mocha
+import { expect } from "chai"
+import { addCompletionHooks } from "../utils/mocha-hooks"
+import { getAccounts, TestAccount } from "../utils"
+import { ProcessCensusOrigin, ProcessContractMethods, ProcessContractParameters, ProcessMode, validateProcessParams, IProcessCreateParams } from "../../lib"
+import { Contract } from "ethers"
+
+import ProcessBuilder from "../builders/process"
+import Erc20Builder from "../builders/erc20"
+
+let accounts: TestAccount[]
+let deployAccount: TestAccount
+let entityAccount: TestAccount
+let contractInstance: Contract & ProcessContractMethods
+
+/** Arranges the parameters for `newProcess()` without any client side check */
+function toContractParams(params: IProcessCreateParams): any[] {
+    return [
+        [params.mode, params.envelopeType, params.censusOrigin],
+        params.tokenAddress || "0x0000000000000000000000000000000000000000",
+        [params.metadata, params.censusRoot, params.censusUri || ""],
+        [params.startBlock, params.blockCount],
+        [params.questionCount, params.maxCount, params.maxValue, params.maxVoteOverwrites],
+        [params.maxTotalCost, params.costExponent, params.namespace],
+        params.evmBlockHeight || 0,
+        params.paramsSignature
+    ]
+}
+
+function expectRevert(promise: Promise<any>, message: string) {
+    return promise.then(() => {
+        throw new Error("The transaction should have reverted with: " + message)
+    }, err => {
+        expect(err.message).to.include("revert " + message)
+    })
+}
+
+addCompletionHooks()
+
+describe("Process params validation", () => {
+    beforeEach(async () => {
+        accounts = getAccounts()
+        deployAccount = accounts[0]
+        entityAccount = accounts[1]
+
+        contractInstance = await new ProcessBuilder().build(0)
+    })
+
+    it("should accept valid parameters", () => {
+        expect(validateProcessParams(ProcessBuilder.defaultParams())).to.deep.eq([])
+        expect(validateProcessParams({ ...ProcessBuilder.defaultParams(), mode: new ProcessMode(ProcessMode.make({ interruptible: true })), blockCount: 0 })).to.deep.eq([])
+        expect(validateProcessParams({
+            ...ProcessBuilder.defaultParams(),
+            mode: ProcessMode.make({ autoStart: true }),
+            censusOrigin: new ProcessCensusOrigin(ProcessCensusOrigin.ERC20),
+            tokenAddress: "0x1234567890123456789012345678901234567890",
+            censusUri: "",
+            evmBlockHeight: 1000
+        }, entityAccount.address)).to.deep.eq([])
+    })
+
+    it("should report every violation at once", () => {
+        const violations = validateProcessParams({
+            ...ProcessBuilder.defaultParams(),
+            mode: ProcessMode.make({ autoStart: true }),
+            startBlock: 0,
+            blockCount: 0,
+            metadata: "",
+            censusRoot: "",
+            censusUri: "",
+            questionCount: 0,
+            maxCount: 101,
+            maxValue: 0
+        })
+        expect(violations).to.deep.eq([
+            { field: "startBlock", code: "AUTO_START_WITHOUT_START_BLOCK", message: "Auto start requires a start block" },
+            { field: "blockCount", code: "UNINTERRUPTIBLE_WITHOUT_BLOCK_COUNT", message: "Uninterruptible needs blockCount" },
+            { field: "metadata", code: "NO_METADATA", message: "No metadata" },
+            { field: "censusRoot", code: "NO_CENSUS_ROOT", message: "No censusRoot" },
+            { field: "censusUri", code: "NO_CENSUS_URI", message: "No censusUri" },
+            { field: "questionCount", code: "NO_QUESTION_COUNT", message: "No questionCount" },
+            { field: "maxCount", code: "INVALID_MAX_COUNT", message: "Invalid maxCount" },
+            { field: "maxValue", code: "NO_MAX_VALUE", message: "No maxValue" }
+        ])
+
+        const evmViolations = validateProcessParams({
+            ...ProcessBuilder.defaultParams(),
+            mode: ProcessMode.make({ interruptible: true, dynamicCensus: true }),
+            censusOrigin: ProcessCensusOrigin.ERC20,
+            tokenAddress: entityAccount.address,
+            startBlock: 0,
+            blockCount: 0,
+            censusUri: "",
+            maxCount: 0
+        }, entityAccount.address)
+        expect(evmViolations).to.deep.eq([
+            { field: "mode", code: "EVM_WITHOUT_AUTO_START", message: "Auto start is needed on EVM processes" },
+            { field: "mode", code: "EVM_INTERRUPTIBLE", message: "Interruptible not allowed on EVM processes" },
+            { field: "startBlock", code: "EVM_INVALID_START_BLOCK", message: "Invalid start block" },
+            { field: "blockCount", code: "EVM_INVALID_BLOCK_COUNT", message: "Invalid blockCount" },
+            { field: "mode", code: "EVM_DYNAMIC_CENSUS", message: "Dynamic census not allowed on EVM processes" },
+            { field: "tokenAddress", code: "INVALID_TOKEN_ADDRESS", message: "Invalid token address" },
+            { field: "maxCount", code: "INVALID_MAX_COUNT", message: "Invalid maxCount" }
+        ])
+    })
+
+    it("should report the values that do not fit the contract types", () => {
+        const violations = validateProcessParams({
+            ...ProcessBuilder.defaultParams(),
+            startBlock: -1,
+            questionCount: 256,
+            maxTotalCost: 65536,
+            costExponent: 1.5,
+            namespace: undefined,
+            evmBlockHeight: -1,
+            tokenAddress: "0x1234",
+            paramsSignature: "0x1234"
+        })
+        expect(violations.map(item => item.field)).to.deep.eq(["startBlock", "questionCount", "maxTotalCost", "costExponent", "namespace", "evmBlockHeight", "tokenAddress", "paramsSignature"])
+        expect(violations.every(item => item.code == "OUT_OF_RANGE")).to.eq(true)
+        expect(violations[0].message).to.eq("Invalid startBlock")
+
+        expect(validateProcessParams({ ...ProcessBuilder.defaultParams(), censusOrigin: ProcessCensusOrigin.MINI_ME })).to.deep.eq([
+            { field: "censusOrigin", code: "UNSUPPORTED_CENSUS_ORIGIN", message: "Unsupported census origin" }
+        ])
+        expect(() => validateProcessParams(null)).to.throw("Invalid parameters")
+    })
+
+    it("should report the same reason that the contract reverts with", async () => {
+        const cases: Partial<IProcessCreateParams>[] = [
+            { censusOrigin: ProcessCensusOrigin.MINI_ME },
+            { mode: ProcessMode.make({ autoStart: true }), startBlock: 0 },
+            { blockCount: 0 },
+            { metadata: "" },
+            { censusRoot: "" },
+            { censusUri: "" },
+            { questionCount: 0 },
+            { maxCount: 0 },
+            { maxCount: 101 },
+            { maxValue: 0 }
+        ]
+
+        const instance = contractInstance.connect(entityAccount.wallet) as Contract & ProcessContractMethods
+        for (let item of cases) {
+            const params = { ...ProcessBuilder.defaultParams(), ...item }
+            const violations = validateProcessParams(params, entityAccount.address)
+            expect(violations.length).to.eq(1)
+            await expectRevert(instance.callStatic.newProcess(...toContractParams(params)), violations[0].message)
+        }
+
+        // Valid
+        const params = { ...ProcessBuilder.defaultParams(), maxCount: 100 }
+        expect(validateProcessParams(params)).to.deep.eq([])
+        await instance.callStatic.newProcess(...toContractParams(params))
+    }).timeout(10000)
+
+    it("should report the same reason that the contract reverts with on EVM processes", async () => {
+        const tokenInstance = await new Erc20Builder().withTokenStorageProof(await contractInstance.tokenStorageProofAddress()).build()
+        const evmParams: IProcessCreateParams = {
+            ...ProcessBuilder.defaultParams(),
+            mode: ProcessMode.make({ autoStart: true }),
+            censusOrigin: ProcessCensusOrigin.ERC20,
+            tokenAddress: tokenInstance.address,
+            censusUri: "",
+            evmBlockHeight: 1000
+        }
+        const cases: Partial<IProcessCreateParams>[] = [
+            { mode: ProcessMode.make({}) },
+            { mode: ProcessMode.make({ autoStart: true, interruptible: true }) },
+            { startBlock: 0 },
+            { blockCount: 0 },
+            { mode: ProcessMode.make({ autoStart: true, dynamicCensus: true }) },
+            { tokenAddress: deployAccount.address },
+            { tokenAddress: "0x0000000000000000000000000000000000000000" },
+            { metadata: "" },
+            { censusRoot: "" },
+            { questionCount: 0 },
+            { maxCount: 101 },
+            { maxValue: 0 }
+        ]
+
+        const instance = contractInstance.connect(deployAccount.wallet) as Contract & ProcessContractMethods
+        for (let item of cases) {
+            const params = { ...evmParams, ...item }
+            const violations = validateProcessParams(params, deployAccount.address)
+            expect(violations.length).to.eq(1)
+            await expectRevert(instance.callStatic.newProcess(...toContractParams(params)), violations[0].message)
+        }
+
+        // Valid
+        expect(validateProcessParams(evmParams, deployAccount.address)).to.deep.eq([])
+        await instance.callStatic.newProcess(...toContractParams(evmParams))
+    }).timeout(10000)
+
+    it("should apply the same bounds on ProcessContractParameters", () => {
+        expect(() => ProcessContractParameters.fromParams({ ...ProcessBuilder.defaultParams(), maxCount: 101 })).to.throw("Invalid maxCount")
+        expect(() => ProcessContractParameters.fromParams({ ...ProcessBuilder.defaultParams(), maxCount: 100 })).to.not.throw()
+        expect(() => ProcessContractParameters.fromParams({ ...ProcessBuilder.defaultParams(), namespace: 65535 })).to.not.throw()
+        expect(() => ProcessContractParameters.fromParams({ ...ProcessBuilder.defaultParams(), namespace: 65536 })).to.throw("Invalid namespace")
+        expect(() => ProcessContractParameters.fromParams({ ...ProcessBuilder.defaultParams(), maxTotalCost: 65535 })).to.not.throw()
+        expect(() => ProcessContractParameters.fromParams({ ...ProcessBuilder.defaultParams(), costExponent: 65536 })).to.throw("Invalid costExponent")
+    })
+})
@@ -0,0 +1,129 @@
+import "mocha" // using @types/mocha
+import { expect } from "chai"
+import { addCompletionHooks } from "../utils/mocha-hooks"
+import { getAccounts, TestAccount } from "../utils"
+import {
+    IQuestionIndexUpdatedEvent, IStatusUpdatedEvent, ProcessClient, ProcessContractMethods, ProcessEnvelopeType, ProcessMode, ProcessStatus,
+    SerialProcessController
+} from "../../lib"
+import { Contract } from "ethers"
+
+import ProcessBuilder from "../builders/process"
+
+let accounts: TestAccount[]
+let entityAccount: TestAccount
+let randomAccount: TestAccount
+let contractInstance: Contract & ProcessContractMethods
+let client: ProcessClient
+
+function createProcess(mode = ProcessMode.make({ interruptible: true }), envelopeType = ProcessEnvelopeType.make({ serial: true })): Promise<string> {
+    return client.create({ ...ProcessBuilder.defaultParams(), mode, envelopeType, questionCount: 3 })
+}
+
+async function expectFailure(promise: Promise<any>, message: string) {
+    try {
+        await promise
+        throw new Error("The request should have failed")
+    }
+    catch (err) {
+        expect(err.message).to.eq(message)
+    }
+}
+
+addCompletionHooks()
+
+describe("Serial process controller", () => {
+    beforeEach(async () => {
+        accounts = getAccounts()
+        entityAccount = accounts[1]
+        randomAccount = accounts[2]
+        contractInstance = await new ProcessBuilder().build(0)
+
+        client = new ProcessClient(contractInstance.address, entityAccount.wallet)
+    })
+
+    it("should fail on invalid parameters", () => {
+        expect(() => new SerialProcessController(null, "0x1234")).to.throw("Invalid client")
+        expect(() => new SerialProcessController(client, "")).to.throw("Invalid processId")
+    })
+
+    it("should move through the questions and emit the confirmed events", async () => {
+        const processId = await createProcess()
+        const controller = new SerialProcessController(client, processId)
+        expect(controller.params).to.eq(null)
+
+        await controller.load()
+        expect(controller.questionIndex).to.eq(0)
+        expect(controller.questionCount).to.eq(3)
+        expect(controller.status.isPaused).to.eq(true)
+
+        const indexes: number[] = []
+        const statuses: number[] = []
+        controller.on("QuestionIndexUpdated", (event: IQuestionIndexUpdatedEvent) => {
+            expect(event.processId).to.eq(processId)
+            indexes.push(event.newIndex)
+        })
+        controller.on("StatusUpdated", (event: IStatusUpdatedEvent) => statuses.push(event.status.value))
+
+        await controller.resume()
+        expect(controller.status.isReady).to.eq(true)
+
+        let params = await controller.next()
+        expect(params.questionIndex).to.eq(1)
+        expect(controller.questionIndex).to.eq(1)
+
+        await controller.pause()
+        await expectFailure(controller.next(), "Process not ready")
+        await controller.resume()
+
+        await controller.next()
+        expect(controller.isLastQuestion).to.eq(true)
+
+        // The last increment ends the process
+        params = await controller.next()
+        expect(params.status.isEnded).to.eq(true)
+        expect(params.questionIndex).to.eq(2)
+
+        expect(indexes).to.deep.eq([1, 2])
+        expect(statuses).to.deep.eq([ProcessStatus.READY, ProcessStatus.PAUSED, ProcessStatus.READY, ProcessStatus.ENDED])
+
+        await expectFailure(controller.next(), "Process not ready")
+        await expectFailure(controller.end(), "Process terminated")
+    }).timeout(20000)
+
+    it("should end an interruptible process early", async () => {
+        const controller = new SerialProcessController(client, await createProcess())
+
+        await expectFailure(controller.pause(), "Must differ")
+        await controller.resume()
+        await expectFailure(controller.resume(), "Must differ")
+
+        const params = await controller.end()
+        expect(params.status.isEnded).to.eq(true)
+        expect(params.questionIndex).to.eq(0)
+    }).timeout(15000)
+
+    it("should check the preconditions before sending", async () => {
+        const uninterruptible = new SerialProcessController(client, await createProcess(ProcessMode.make({})))
+        await expectFailure(uninterruptible.end(), "Not interruptible")
+        await uninterruptible.resume()
+        await expectFailure(uninterruptible.pause(), "Not interruptible")
+        await expectFailure(uninterruptible.end(), "Not interruptible")
+
+        const notSerial = new SerialProcessController(client, await createProcess(ProcessMode.make({ interruptible: true }), ProcessEnvelopeType.make({})))
+        await expectFailure(notSerial.resume(), "Process not serial")
+
+        const processId = await createProcess()
+        const randomClient = new ProcessClient(contractInstance.address, randomAccount.wallet)
+        await expectFailure(new SerialProcessController(randomClient, processId).resume(), "Invalid entity")
+
+        const readOnlyClient = new ProcessClient(contractInstance.address, entityAccount.provider)
+        await expectFailure(new SerialProcessController(readOnlyClient, processId).resume(), "A signer is required")
+
+        const controller = new SerialProcessController(client, processId)
+        const pending = controller.resume()
+        await expectFailure(controller.next(), "Another transaction is pending")
+        await pending
+        expect(controller.status.isReady).to.eq(true)
+    }).timeout(20000)
+})
@@ -0,0 +1,152 @@
+import "mocha" // using @types/mocha
+import { expect } from "chai"
+import { addCompletionHooks } from "../utils/mocha-hooks"
+import {
+    computeTally, computeTallyReport, IProcessCreateParams, IVoteEnvelope, MAX_TALLY_COUNT, ProcessCensusOrigin,
+    ProcessEnvelopeType, VotePackage
+} from "../../lib"
+
+import ProcessBuilder from "../builders/process"
+
+addCompletionHooks()
+
+const TALLY_PARAMS: Partial<IProcessCreateParams> = {
+    censusOrigin: ProcessCensusOrigin.OFF_CHAIN_TREE,
+    questionCount: 2,
+    maxCount: 2,
+    maxValue: 3,
+    maxVoteOverwrites: 0
+}
+
+describe("Tally", () => {
+    it("should count the choices of every envelope", () => {
+        const params = ProcessBuilder.defaultContractParams(TALLY_PARAMS)
+        const envelopes: IVoteEnvelope[] = [
+            { voter: "0x1", votePackage: { votes: [[1, 3], [0]] } },
+            { voter: "0x2", votePackage: VotePackage.build(params, [[1], [0, 2]]) },
+            { voter: "0x3", votePackage: { votes: [[3], [3]] } }
+        ]
+
+        const results = computeTally(params, envelopes)
+        expect(results.tally).to.deep.eq([[0, 2, 0, 2], [2, 0, 1, 1]])
+        expect(results.height).to.eq(3)
+        expect(results.isValidFor(params)).to.eq(true)
+
+        // Deterministic
+        expect(computeTally(params, envelopes).toJSON()).to.deep.eq(results.toJSON())
+
+        expect(() => computeTally(params, [])).to.throw("No valid votes")
+        expect(() => computeTally(params, null)).to.throw("Invalid envelopes")
+        expect(() => computeTally(null, envelopes)).to.throw("Invalid parameters")
+    })
+
+    it("should discard invalid envelopes", () => {
+        const params = ProcessBuilder.defaultContractParams(TALLY_PARAMS)
+        const report = computeTallyReport(params, [
+            { voter: "0x1", votePackage: { votes: [[1]] } },
+            { voter: "", votePackage: { votes: [[1], [1]] } },
+            { voter: "0x2", votePackage: { votes: [[4], [1]] } },
+            { voter: "0x3", votePackage: { votes: [[1], [2]] } },
+            null
+        ])
+
+        expect(report.results.tally).to.deep.eq([[0, 1, 0, 0], [0, 0, 1, 0]])
+        expect(report.results.height).to.eq(1)
+        expect(report.voters).to.deep.eq(["0x3"])
+        expect(report.discarded).to.deep.eq([
+            { index: 0, reason: "The amount of questions does not match questionCount" },
+            { index: 1, reason: "Invalid voter" },
+            { index: 2, reason: "Invalid value on question 0" },
+            { index: 4, reason: "Invalid voter" }
+        ])
+    })
+
+    it("should only count the last vote of each voter", () => {
+        const envelopes: IVoteEnvelope[] = [
+            { voter: "0x1", votePackage: { votes: [[0], [0]] } },
+            { voter: "0x2", votePackage: { votes: [[1], [1]] } },
+            { voter: "0x1", votePackage: { votes: [[2], [2]] } },
+            { voter: "0x1", votePackage: { votes: [[3], [3]] } }
+        ]
+
+        // No overwrites
+        let report = computeTallyReport(ProcessBuilder.defaultContractParams({ ...TALLY_PARAMS, maxVoteOverwrites: 0 }), envelopes)
+        expect(report.results.tally).to.deep.eq([[1, 1, 0, 0], [1, 1, 0, 0]])
+        expect(report.discarded).to.deep.eq([{ index: 2, reason: "Too many vote overwrites" }, { index: 3, reason: "Too many vote overwrites" }])
+
+        // One overwrite
+        report = computeTallyReport(ProcessBuilder.defaultContractParams({ ...TALLY_PARAMS, maxVoteOverwrites: 1 }), envelopes)
+        expect(report.results.tally).to.deep.eq([[0, 1, 1, 0], [0, 1, 1, 0]])
+        expect(report.results.height).to.eq(2)
+        expect(report.voters).to.deep.eq(["0x2", "0x1"])
+        expect(report.discarded).to.deep.eq([{ index: 0, reason: "Overwritten" }, { index: 3, reason: "Too many vote overwrites" }])
+
+        // Invalid envelopes do not consume overwrites
+        report = computeTallyReport(ProcessBuilder.defaultContractParams({ ...TALLY_PARAMS, maxVoteOverwrites: 1 }), [
+            { voter: "0x1", votePackage: { votes: [[0], [0]] } },
+            { voter: "0x1", votePackage: { votes: [[9], [0]] } },
+            { voter: "0x1", votePackage: { votes: [[2], [2]] } }
+        ])
+        expect(report.results.tally).to.deep.eq([[0, 0, 1, 0], [0, 0, 1, 0]])
+    })
+
+    it("should apply the weight of voters on weighted censuses", () => {
+        const envelopes: IVoteEnvelope[] = [
+            { voter: "0x1", votePackage: { votes: [[1], [0]] }, weight: 10 },
+            { voter: "0x2", votePackage: { votes: [[1], [2]] }, weight: "25" },
+            { voter: "0x3", votePackage: { votes: [[3], [2]] }, weight: 1 }
+        ]
+
+        const weighted = computeTally(ProcessBuilder.defaultContractParams({ ...TALLY_PARAMS, censusOrigin: ProcessCensusOrigin.OFF_CHAIN_TREE_WEIGHTED }), envelopes)
+        expect(weighted.tally).to.deep.eq([[0, 35, 0, 1], [10, 0, 26, 0]])
+        expect(weighted.height).to.eq(3)
+
+        // Ignored on plain censuses
+        const plain = computeTally(ProcessBuilder.defaultContractParams(TALLY_PARAMS), envelopes)
+        expect(plain.tally).to.deep.eq([[0, 2, 0, 1], [1, 0, 2, 0]])
+
+        const params = ProcessBuilder.defaultContractParams({ ...TALLY_PARAMS, censusOrigin: ProcessCensusOrigin.OFF_CHAIN_TREE_WEIGHTED })
+        const report = computeTallyReport(params, [
+            ...envelopes,
+            { voter: "0x4", votePackage: { votes: [[1], [1]] }, weight: -1 },
+            { voter: "0x5", votePackage: { votes: [[1], [1]] }, weight: "abc" },
+            { voter: "0x6", votePackage: { votes: [[1], [1]] }, weight: 0 },
+            { voter: "0x7", votePackage: { votes: [[1], [1]] } }
+        ])
+        expect(report.results.tally).to.deep.eq([[0, 35, 0, 1], [10, 0, 26, 0]])
+        expect(report.discarded).to.deep.eq([
+            { index: 3, reason: "Invalid weight" },
+            { index: 4, reason: "Invalid weight" },
+            { index: 5, reason: "Invalid weight" },
+            { index: 6, reason: "Missing weight" }
+        ])
+
+        expect(() => computeTally(params, [
+            { voter: "0x1", votePackage: { votes: [[1], [0]] }, weight: MAX_TALLY_COUNT },
+            { voter: "0x2", votePackage: { votes: [[1], [0]] }, weight: 1 }
+        ])).to.throw("The tally exceeds the uint32 range")
+    })
+
+    it("should count serial envelopes on their question", () => {
+        const envelopeType = ProcessEnvelopeType.make({ serial: true })
+        const params = ProcessBuilder.defaultContractParams({ ...TALLY_PARAMS, envelopeType, maxVoteOverwrites: 1 }, { questionIndex: 1 })
+
+        const report = computeTallyReport(params, [
+            { voter: "0x1", votePackage: { questionIndex: 0, votes: [[1]] } },
+            { voter: "0x2", votePackage: { questionIndex: 0, votes: [[2]] } },
+            { voter: "0x1", votePackage: { questionIndex: 1, votes: [[3]] } },
+            { voter: "0x1", votePackage: { questionIndex: 0, votes: [[0, 3]] } },
+            { voter: "0x1", votePackage: { questionIndex: 2, votes: [[1]] } },
+            { voter: "0x1", votePackage: { votes: [[1], [1]] } }
+        ])
+
+        expect(report.results.tally).to.deep.eq([[1, 0, 1, 1], [0, 0, 0, 1]])
+        expect(report.results.height).to.eq(2)
+        expect(report.voters).to.deep.eq(["0x2", "0x1"])
+        expect(report.discarded).to.deep.eq([
+            { index: 0, reason: "Overwritten" },
+            { index: 4, reason: "Invalid questionIndex" },
+            { index: 5, reason: "Invalid questionIndex" }
+        ])
+    })
+})
@@ -0,0 +1,183 @@
+import "mocha" // using @types/mocha
+import { expect } from "chai"
+import { addCompletionHooks } from "../utils/mocha-hooks"
+import {
+    decryptVotePackage, encryptVotePackage, IEncryptedVoteEnvelope, IProcessCreateParams, IWrappedMetadataKey, ProcessCensusOrigin,
+    ProcessEnvelopeType, ProcessKeys, ProcessStatus, tallyEncryptedVotes, unwrapMetadataKey, VotePackage
+} from "../../lib"
+import { utils } from "ethers"
+
+import ProcessBuilder from "../builders/process"
+
+addCompletionHooks()
+
+const ENCRYPTED_PARAMS: Partial<IProcessCreateParams> = {
+    envelopeType: ProcessEnvelopeType.make({ encryptedVotes: true }),
+    questionCount: 2,
+    maxCount: 2,
+    maxValue: 3
+}
+
+describe("Vote encryption", () => {
+    it("should manage the keys of a process", () => {
+        const keys = ProcessKeys.generate(3)
+        expect(keys.indexes).to.deep.eq([0, 1, 2])
+        expect(keys.size).to.eq(3)
+        expect(keys.isRevealed).to.eq(true)
+
+        const key = keys.getKey(1)
+        expect(utils.hexDataLength(key.publicKey)).to.eq(33)
+        expect(utils.computePublicKey(key.privateKey, true)).to.eq(key.publicKey)
+
+        // Keyholders publish their public keys first
+        const publicKeys = keys.toPublic()
+        expect(publicKeys.isRevealed).to.eq(false)
+        expect(publicKeys.getKey(1)).to.deep.eq({ index: 1, publicKey: key.publicKey })
+        expect(() => publicKeys.addPublicKey(1, key.publicKey)).to.throw("Duplicate key index")
+
+        publicKeys.revealPrivateKey(0, keys.getKey(0).privateKey)
+        publicKeys.revealPrivateKey(2, keys.getKey(2).privateKey)
+        expect(publicKeys.isRevealed).to.eq(false)
+        expect(() => publicKeys.revealPrivateKey(1, keys.getKey(0).privateKey)).to.throw("The private key does not match")
+        expect(() => publicKeys.revealPrivateKey(1, "0x1234")).to.throw("Invalid private key")
+        expect(() => publicKeys.revealPrivateKey(5, key.privateKey)).to.throw("Unknown key index")
+        publicKeys.revealPrivateKey(1, key.privateKey)
+        expect(publicKeys.isRevealed).to.eq(true)
+
+        // Serialization
+        expect(ProcessKeys.fromJSON(JSON.parse(JSON.stringify(keys))).toJSON()).to.deep.eq(keys.toJSON())
+        const uncompressed = new ProcessKeys([{ index: 7, publicKey: utils.computePublicKey(key.publicKey, false) }])
+        expect(uncompressed.getKey(7).publicKey).to.eq(key.publicKey)
+
+        expect(() => new ProcessKeys([{ index: 0, publicKey: key.privateKey }])).to.throw("Invalid public key")
+        expect(() => new ProcessKeys([{ index: 256, publicKey: key.publicKey }])).to.throw("Invalid key index")
+        expect(() => new ProcessKeys([{ index: 0, publicKey: key.publicKey, privateKey: keys.getKey(0).privateKey }])).to.throw("The private key does not match")
+        expect(() => new ProcessKeys(null)).to.throw("Invalid keys")
+        expect(() => ProcessKeys.generate(0)).to.throw("Invalid key count")
+        expect(() => keys.getKey(3)).to.throw("Unknown key index")
+    })
+
+    it("should encrypt and decrypt vote packages", () => {
+        const params = ProcessBuilder.defaultContractParams(ENCRYPTED_PARAMS)
+        const keys = ProcessKeys.generate(2)
+        const votePackage = VotePackage.build(params, [[1, 3], [0]])
+
+        const encrypted = encryptVotePackage(params, votePackage, keys.toPublic())
+        expect(encrypted.keyIndexes).to.deep.eq([0, 1])
+        expect(utils.isHexString(encrypted.votePackage)).to.eq(true)
+        expect(utils.toUtf8String(encrypted.votePackage, utils.Utf8ErrorFuncs.ignore)).to.not.include("votes")
+
+        // Equal ballots produce different ciphertexts
+        expect(encryptVotePackage(params, votePackage, keys).votePackage).to.not.eq(encrypted.votePackage)
+
+        const decrypted = decryptVotePackage(params, encrypted, keys)
+        expect(decrypted.value).to.deep.eq(votePackage.value)
+
+        expect(() => decryptVotePackage(params, encrypted, keys.toPublic())).to.throw("The private key 0 is not revealed")
+        expect(() => decryptVotePackage(params, encrypted, ProcessKeys.generate(2))).to.throw("Could not decrypt the vote package")
+        expect(() => decryptVotePackage(params, { ...encrypted, keyIndexes: [1, 0] }, keys)).to.throw("Could not decrypt the vote package")
+        expect(() => decryptVotePackage(params, { ...encrypted, keyIndexes: [0, 2] }, keys)).to.throw("Unknown key index")
+        expect(() => decryptVotePackage(params, { keyIndexes: [], votePackage: "0x" }, keys)).to.throw("Invalid encrypted vote package")
+    })
+
+    it("should use the same encryption scheme as the metadata keys", () => {
+        const params = ProcessBuilder.defaultContractParams(ENCRYPTED_PARAMS)
+        const keys = ProcessKeys.generate(1)
+        const votePackage = VotePackage.build(params, [[1], [2]])
+        const key = keys.getKey(0)
+
+        // ephemeralPublicKey (33) | iv (12) | tag (16) | ciphertext
+        const encrypted = encryptVotePackage(params, votePackage, keys)
+        const wrappedKey: IWrappedMetadataKey = {
+            publicKey: key.publicKey,
+            ephemeralPublicKey: utils.hexDataSlice(encrypted.votePackage, 0, 33),
+            iv: utils.hexDataSlice(encrypted.votePackage, 33, 45),
+            tag: utils.hexDataSlice(encrypted.votePackage, 45, 61),
+            ciphertext: utils.hexDataSlice(encrypted.votePackage, 61)
+        }
+        expect(utils.toUtf8String(unwrapMetadataKey(wrappedKey, key.privateKey))).to.eq(votePackage.serialize())
+    })
+
+    it("should refuse invalid packages and processes without encrypted votes", () => {
+        const params = ProcessBuilder.defaultContractParams(ENCRYPTED_PARAMS)
+        const keys = ProcessKeys.generate(1)
+
+        const plainParams = ProcessBuilder.defaultContractParams({ ...ENCRYPTED_PARAMS, envelopeType: ProcessEnvelopeType.make({}) })
+        expect(() => encryptVotePackage(plainParams, VotePackage.build(plainParams, [[1], [2]]), keys)).to.throw("The process does not use encrypted votes")
+
+        const otherParams = ProcessBuilder.defaultContractParams({ ...ENCRYPTED_PARAMS, questionCount: 3 })
+        expect(() => encryptVotePackage(params, VotePackage.build(otherParams, [[1], [2], [3]]), keys)).to.throw("The amount of questions does not match questionCount")
+        expect(() => encryptVotePackage(params, { votes: [[1], [2]] } as any, keys)).to.throw("Invalid vote package")
+        expect(() => encryptVotePackage(params, VotePackage.build(params, [[1], [2]]), new ProcessKeys())).to.throw("No encryption keys")
+    })
+
+    it("should tally the encrypted envelopes once the keys are revealed", () => {
+        const params = ProcessBuilder.defaultContractParams(ENCRYPTED_PARAMS, { status: new ProcessStatus(ProcessStatus.ENDED) })
+        const keys = ProcessKeys.generate(3)
+        const publicKeys = keys.toPublic()
+
+        const envelopes: IEncryptedVoteEnvelope[] = [
+            [[1, 3], [0]],
+            [[1], [0, 2]],
+            [[3], [3]]
+        ].map((votes, idx) => ({ voter: "0x" + (idx + 1), votePackage: encryptVotePackage(params, VotePackage.build(params, votes), publicKeys) }))
+
+        // Invalid envelopes are discarded
+        envelopes.push({ voter: "0x4", votePackage: { keyIndexes: [0, 1, 2], votePackage: "0x1234" } })
+        envelopes.push({ voter: "0x5", votePackage: encryptVotePackage(params, VotePackage.build(params, [[1], [1]]), ProcessKeys.generate(3)) })
+        envelopes.push(null)
+
+        expect(() => tallyEncryptedVotes(params, envelopes, publicKeys)).to.throw("The process keys are not revealed")
+
+        const results = tallyEncryptedVotes(params, envelopes, keys)
+        expect(results.height).to.eq(3)
+        expect(results.tally).to.deep.eq([[0, 2, 0, 2], [2, 0, 1, 1]])
+        expect(results.isValidFor(params)).to.eq(true)
+
+        expect(() => tallyEncryptedVotes(ProcessBuilder.defaultContractParams(ENCRYPTED_PARAMS, { status: new ProcessStatus(ProcessStatus.READY) }), envelopes, keys)).to.throw("The process has not ended")
+        expect(() => tallyEncryptedVotes(params, envelopes.slice(3), keys)).to.throw("No valid votes")
+        expect(() => tallyEncryptedVotes(params, null, keys)).to.throw("Invalid envelopes")
+    })
+
+    it("should apply the overwrite and weight rules to encrypted envelopes", () => {
+        const keys = ProcessKeys.generate(1)
+        const params = ProcessBuilder.defaultContractParams({ ...ENCRYPTED_PARAMS, maxVoteOverwrites: 0 }, { status: new ProcessStatus(ProcessStatus.ENDED) })
+        const encrypt = (votes: number[][]) => encryptVotePackage(params, VotePackage.build(params, votes), keys)
+
+        // Replayed envelopes count once
+        const envelope: IEncryptedVoteEnvelope = { voter: "0x1", votePackage: encrypt([[1], [2]]) }
+        let results = tallyEncryptedVotes(params, [envelope, envelope, { voter: "0x2", votePackage: encrypt([[0], [2]]) }], keys)
+        expect(results.tally).to.deep.eq([[1, 1, 0, 0], [0, 0, 2, 0]])
+        expect(results.height).to.eq(2)
+
+        // Overwrites
+        const overwrites = ProcessBuilder.defaultContractParams({ ...ENCRYPTED_PARAMS, maxVoteOverwrites: 1 }, { status: new ProcessStatus(ProcessStatus.ENDED) })
+        results = tallyEncryptedVotes(overwrites, [envelope, { voter: "0x1", votePackage: encrypt([[3], [3]]) }], keys)
+        expect(results.tally).to.deep.eq([[0, 0, 0, 1], [0, 0, 0, 1]])
+        expect(results.height).to.eq(1)
+
+        // Weighted censuses
+        const weighted = ProcessBuilder.defaultContractParams({ ...ENCRYPTED_PARAMS, censusOrigin: ProcessCensusOrigin.OFF_CHAIN_TREE_WEIGHTED }, { status: new ProcessStatus(ProcessStatus.ENDED) })
+        results = tallyEncryptedVotes(weighted, [
+            { ...envelope, weight: 10 },
+            { voter: "0x2", votePackage: encrypt([[0], [2]]), weight: "5" },
+            { voter: "0x3", votePackage: encrypt([[3], [3]]) }
+        ], keys)
+        expect(results.tally).to.deep.eq([[5, 10, 0, 0], [0, 0, 15, 0]])
+        expect(results.height).to.eq(2)
+    })
+
+    it("should tally the envelopes of serial processes", () => {
+        const envelopeType = ProcessEnvelopeType.make({ encryptedVotes: true, serial: true })
+        const keys = ProcessKeys.generate(1)
+
+        const envelopes = [[0, [1]], [0, [2]], [1, [3]]].map(([questionIndex, values]: [number, number[]], idx) => {
+            const params = ProcessBuilder.defaultContractParams({ ...ENCRYPTED_PARAMS, envelopeType }, { questionIndex })
+            return { voter: "0x" + (idx + 1), votePackage: encryptVotePackage(params, VotePackage.build(params, [values]), keys) }
+        })
+
+        const results = tallyEncryptedVotes(ProcessBuilder.defaultContractParams({ ...ENCRYPTED_PARAMS, envelopeType }, { questionIndex: 1, status: new ProcessStatus(ProcessStatus.RESULTS) }), envelopes, keys)
+        expect(results.tally).to.deep.eq([[0, 1, 1, 0], [0, 0, 0, 1]])
+        expect(results.height).to.eq(3)
+    })
+})
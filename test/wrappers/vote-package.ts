@@ -0,0 +1,113 @@
+import "mocha" // using @types/mocha
+import { expect } from "chai"
+import { addCompletionHooks } from "../utils/mocha-hooks"
+import { ProcessEnvelopeType, VotePackage } from "../../lib"
+
+import ProcessBuilder from "../builders/process"
+
+addCompletionHooks()
+
+describe("Vote Package", () => {
+    it("should build valid packages", () => {
+        const params = ProcessBuilder.defaultContractParams({ questionCount: 3, maxCount: 2, maxValue: 3 })
+
+        const votePackage = VotePackage.build(params, [[1], [0, 3], [3, 3]])
+        expect(votePackage.votes).to.deep.eq([[1], [0, 3], [3, 3]])
+        expect(votePackage.nonce).to.eq(undefined)
+        expect(votePackage.questionIndex).to.eq(undefined)
+        expect(votePackage.value).to.deep.eq({ votes: [[1], [0, 3], [3, 3]] })
+
+        expect(VotePackage.build(params, [[1], [2], [3]], { nonce: "0x1234" }).nonce).to.eq("0x1234")
+    })
+
+    it("should generate a nonce when votes are encrypted", () => {
+        const params = ProcessBuilder.defaultContractParams({ questionCount: 1, envelopeType: ProcessEnvelopeType.make({ encryptedVotes: true }) })
+
+        const package1 = VotePackage.build(params, [[1]])
+        const package2 = VotePackage.build(params, [[1]])
+        expect(package1.nonce).to.match(/^0x[0-9a-f]{32}$/)
+        expect(package1.nonce).to.not.eq(package2.nonce)
+        expect(VotePackage.build(params, [[1]], { nonce: "0xabcd" }).nonce).to.eq("0xabcd")
+
+        expect(VotePackage.validate(params, { votes: [[1]] })).to.deep.eq(["Encrypted votes require a nonce"])
+        expect(() => new VotePackage(params, { votes: [[1]] })).to.throw("Encrypted votes require a nonce")
+    })
+
+    it("should handle serial processes", () => {
+        const params = ProcessBuilder.defaultContractParams({ questionCount: 3, envelopeType: ProcessEnvelopeType.make({ serial: true }) })
+
+        expect(VotePackage.build(params, [[1]]).questionIndex).to.eq(0)
+        expect(VotePackage.build(params, [[1]], { questionIndex: 2 }).questionIndex).to.eq(2)
+
+        expect(VotePackage.validate(params, { questionIndex: 3, votes: [[1]] })).to.deep.eq(["Invalid questionIndex"])
+        expect(VotePackage.validate(params, { questionIndex: 0, votes: [[1], [1]] })).to.deep.eq(["Serial processes expect the votes of a single question"])
+        expect(VotePackage.validate(params, { votes: [[1]] })).to.deep.eq(["Invalid questionIndex"])
+
+        // Current question (read from the contract)
+        params.questionIndex = 1
+        expect(VotePackage.build(params, [[1]]).questionIndex).to.eq(1)
+        expect(VotePackage.validate(params, { questionIndex: 0, votes: [[1]] })).to.deep.eq(["The questionIndex does not match the current question"])
+
+        const nonSerial = ProcessBuilder.defaultContractParams({ questionCount: 1 })
+        expect(VotePackage.validate(nonSerial, { questionIndex: 0, votes: [[1]] })).to.deep.eq(["The process is not serial"])
+    })
+
+    it("should check the amount of questions, choices and values", () => {
+        const params = ProcessBuilder.defaultContractParams({ questionCount: 2, maxCount: 2, maxValue: 3 })
+
+        expect(VotePackage.validate(params, { votes: [[1]] })).to.deep.eq(["The amount of questions does not match questionCount"])
+        expect(VotePackage.validate(params, { votes: [[1], [1], [1]] })).to.deep.eq(["The amount of questions does not match questionCount"])
+        expect(VotePackage.validate(params, { votes: [[1], []] })).to.deep.eq(["No choices on question 1"])
+        expect(VotePackage.validate(params, { votes: [[1, 2, 3], [1]] })).to.deep.eq(["Too many choices on question 0"])
+        expect(VotePackage.validate(params, { votes: [[4], [-1]] })).to.deep.eq(["Invalid value on question 0", "Invalid value on question 1"])
+        expect(VotePackage.validate(params, { votes: [[1.5], [1]] })).to.deep.eq(["Invalid value on question 0"])
+        expect(VotePackage.validate(params, { votes: [[1, 1], [3, 3]] })).to.deep.eq([])
+        expect(VotePackage.validate(params, { votes: [[1], [1]], nonce: "abc" })).to.deep.eq(["Invalid nonce"])
+        expect(VotePackage.validate(params, null)).to.deep.eq(["Invalid vote package"])
+        expect(() => VotePackage.validate(null, { votes: [] })).to.throw("Invalid parameters")
+    })
+
+    it("should check unique values", () => {
+        const params = ProcessBuilder.defaultContractParams({ questionCount: 1, maxCount: 3, maxValue: 3, envelopeType: ProcessEnvelopeType.make({ uniqueValues: true }) })
+
+        expect(VotePackage.validate(params, { votes: [[0, 1, 3]] })).to.deep.eq([])
+        expect(VotePackage.validate(params, { votes: [[0, 1, 1]] })).to.deep.eq(["Repeated values on question 0"])
+    })
+
+    it("should check the cost of the votes", () => {
+        // Quadratic voting: 10 credits
+        const params = ProcessBuilder.defaultContractParams({ questionCount: 2, maxCount: 5, maxValue: 5, maxTotalCost: 10, costExponent: 20000 })
+
+        expect(VotePackage.validate(params, { votes: [[3, 1], [2, 2, 1, 1]] })).to.deep.eq([])
+        expect(VotePackage.validate(params, { votes: [[3, 1, 1], [2, 2, 2]] })).to.deep.eq([
+            "The cost of question 0 exceeds maxTotalCost",
+            "The cost of question 1 exceeds maxTotalCost"
+        ])
+
+        // Linear
+        const linear = ProcessBuilder.defaultContractParams({ questionCount: 1, maxCount: 5, maxValue: 5, maxTotalCost: 10, costExponent: 10000 })
+        expect(VotePackage.validate(linear, { votes: [[5, 5]] })).to.deep.eq([])
+        expect(VotePackage.validate(linear, { votes: [[5, 5, 1]] })).to.deep.eq(["The cost of question 0 exceeds maxTotalCost"])
+
+        // No limit
+        expect(VotePackage.validate(ProcessBuilder.defaultContractParams({ questionCount: 1, maxCount: 5, maxValue: 5, maxTotalCost: 0 }), { votes: [[5, 5, 5, 5, 5]] })).to.deep.eq([])
+    })
+
+    it("should serialize the package canonically", () => {
+        const params = ProcessBuilder.defaultContractParams({ questionCount: 2, maxCount: 2, maxValue: 3, envelopeType: ProcessEnvelopeType.make({ encryptedVotes: true }) })
+
+        const votePackage = new VotePackage(params, { votes: [[1, 2], [3]], nonce: "0x1234" })
+        const reordered = new VotePackage(params, { nonce: "0x1234", votes: [[1, 2], [3]] })
+        expect(votePackage.serialize()).to.eq('{"nonce":"0x1234","votes":[[1,2],[3]]}')
+        expect(reordered.serialize()).to.eq(votePackage.serialize())
+
+        const parsed = VotePackage.parse(params, votePackage.serialize())
+        expect(parsed.value).to.deep.eq(votePackage.value)
+
+        const serial = ProcessBuilder.defaultContractParams({ questionCount: 2, envelopeType: ProcessEnvelopeType.make({ serial: true }) })
+        expect(VotePackage.build(serial, [[1]], { questionIndex: 1 }).serialize()).to.eq('{"questionIndex":1,"votes":[[1]]}')
+
+        expect(() => VotePackage.parse(params, "{")).to.throw("Invalid vote package")
+        expect(() => VotePackage.parse(params, '{"votes":[[4],[1]],"nonce":"0x12"}')).to.throw("Invalid value on question 0")
+    })
+})